@@ -0,0 +1,9 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import DailyPuzzle from "@/components/game/DailyPuzzle";
+
+export default function ArchivePuzzlePage() {
+  const params = useParams();
+  return <DailyPuzzle date={params.date as string} />;
+}
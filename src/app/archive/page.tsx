@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import LeaderboardCard, { type ClientLeaderboardEntry } from "@/components/game/LeaderboardCard";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { FIRST_DAILY_DATE, getDifficultyForDate } from "@/engine/seeder";
+import { cn } from "@/lib/utils";
+import { CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+
+const pageBg = "min-h-screen w-full bg-slate-50 text-slate-900";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const difficultyDots: Record<string, string> = {
+  easy: "bg-sky-400",
+  medium: "bg-slate-400",
+  hard: "bg-blue-600",
+};
+
+// Dailies roll over at UTC midnight, same as the server
+const toDateStr = (date: Date) => date.toISOString().split("T")[0];
+
+export default function ArchivePage() {
+  const router = useRouter();
+  const [today] = useState(() => toDateStr(new Date()));
+  // First day of the month on screen (UTC)
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  });
+  const [selected, setSelected] = useState<string | null>(null);
+  const [boards, setBoards] = useState<{ daily: ClientLeaderboardEntry[]; archive: ClientLeaderboardEntry[] } | null>(null);
+
+  const days = useMemo(() => {
+    const year = month.getUTCFullYear();
+    const monthIndex = month.getUTCMonth();
+    const count = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+    const cells: (string | null)[] = Array.from({ length: month.getUTCDay() }, () => null);
+    for (let day = 1; day <= count; day++) cells.push(toDateStr(new Date(Date.UTC(year, monthIndex, day))));
+    return cells;
+  }, [month]);
+
+  const isCurrentMonth = toDateStr(month).slice(0, 7) === today.slice(0, 7);
+  const isFirstMonth = toDateStr(month).slice(0, 7) <= FIRST_DAILY_DATE.slice(0, 7);
+
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    fetch(`/api/leaderboard/${selected}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to fetch leaderboard");
+        const data = await res.json();
+        if (!cancelled) setBoards(data);
+      })
+      .catch((err) => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selected]);
+
+  const shiftMonth = (delta: number) => {
+    setMonth((prev) => new Date(Date.UTC(prev.getUTCFullYear(), prev.getUTCMonth() + delta, 1)));
+  };
+
+  const selectDate = (date: string) => {
+    setBoards(null);
+    setSelected(date);
+  };
+
+  return (
+    <main className={`${pageBg} px-4 py-8 flex flex-col items-center gap-8`}>
+      <div className="text-center space-y-2">
+        <h1 className="text-4xl font-black text-slate-800">Archive</h1>
+        <p className="text-slate-500 font-medium">Replay past dailies and race the archive board.</p>
+      </div>
+
+      <div className="w-full max-w-4xl flex flex-col gap-6 lg:grid lg:grid-cols-[1fr_340px] items-start">
+        <Card className="w-full border-slate-200 bg-white shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <Button variant="ghost" size="icon" onClick={() => shiftMonth(-1)} disabled={isFirstMonth} aria-label="Previous month">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <CardTitle className="flex items-center gap-2 text-slate-900">
+              <CalendarDays className="h-5 w-5 text-sky-600" />
+              {month.toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" })}
+            </CardTitle>
+            <Button variant="ghost" size="icon" onClick={() => shiftMonth(1)} disabled={isCurrentMonth} aria-label="Next month">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-7 gap-1 text-center">
+              {WEEKDAYS.map((day) => (
+                <span key={day} className="pb-2 text-xs font-semibold uppercase tracking-wider text-slate-400">
+                  {day}
+                </span>
+              ))}
+              {days.map((date, i) => {
+                if (!date) return <span key={`pad-${i}`} />;
+                // Only released dailies can be picked
+                const isUnavailable = date > today || date < FIRST_DAILY_DATE;
+                return (
+                  <button
+                    key={date}
+                    disabled={isUnavailable}
+                    onClick={() => selectDate(date)}
+                    className={cn(
+                      "flex aspect-square flex-col items-center justify-center gap-1 rounded-xl border text-sm font-semibold transition",
+                      isUnavailable ? "cursor-not-allowed border-transparent text-slate-300" : "border-slate-200 text-slate-700 hover:border-sky-300 hover:bg-sky-50",
+                      date === selected && "border-sky-500 bg-sky-50 text-sky-700",
+                      date === today && "ring-2 ring-sky-200",
+                    )}
+                  >
+                    {Number(date.slice(8))}
+                    {!isUnavailable && <span className={`h-1.5 w-1.5 rounded-full ${difficultyDots[getDifficultyForDate(date).difficulty]}`} />}
+                  </button>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="w-full space-y-4">
+          {selected ? (
+            <>
+              <Button className="w-full" onClick={() => router.push(selected === today ? "/daily" : `/archive/${selected}`)}>
+                {selected === today ? "Play Today's Puzzle" : `Play ${selected}`}
+              </Button>
+              {boards && (
+                <>
+                  <LeaderboardCard title="Same-day Top 10" entries={boards.daily} emptyText="Nobody solved this one on the day." />
+                  {selected !== today && <LeaderboardCard title="Archive Top 10" entries={boards.archive} />}
+                </>
+              )}
+            </>
+          ) : (
+            <p className="text-sm font-medium text-slate-400 text-center">Pick a date to see its leaderboards.</p>
+          )}
+          <Button variant="outline" className="w-full text-slate-600 hover:text-slate-800 border-slate-200" onClick={() => router.push("/")}>
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    </main>
+  );
+}
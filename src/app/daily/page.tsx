@@ -0,0 +1,5 @@
+import DailyPuzzle from "@/components/game/DailyPuzzle";
+
+export default function DailyPage() {
+  return <DailyPuzzle />;
+}
@@ -5,7 +5,7 @@ import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Users } from "lucide-react";
+import { CalendarDays, Users } from "lucide-react";
 
 const pageBg = "min-h-screen w-full bg-slate-50 text-slate-900";
 
@@ -22,24 +22,52 @@ export default function Home() {
   const [creatingRoom, setCreatingRoom] = useState(false);
   const [joiningRoom, setJoiningRoom] = useState(false);
 
-  useEffect(() => {
-    const savedName = window.localStorage.getItem("zip-player-name");
-    if (savedName) {
-      setPlayerName(savedName);
-      setView("menu");
-    }
+  // Create the account cookie (or rename the account) — rooms, times and stats all hang off it
+  const saveAccount = useCallback(async (name: string) => {
+    const res = await fetch("/api/player/me", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    if (!res.ok) throw new Error("Failed to save player");
+    window.localStorage.setItem("zip-player-name", name);
   }, []);
 
+  useEffect(() => {
+    const restore = async () => {
+      const res = await fetch("/api/player/me");
+      if (res.ok) {
+        const me = (await res.json()) as { name: string };
+        setPlayerName(me.name);
+        setView("menu");
+        return;
+      }
+      // Names saved before accounts existed carry over into a new account
+      const savedName = window.localStorage.getItem("zip-player-name");
+      if (savedName) {
+        await saveAccount(savedName);
+        setPlayerName(savedName);
+        setView("menu");
+      }
+    };
+    restore().catch((err) => console.error(err));
+  }, [saveAccount]);
+
   const handleNameSubmit = useCallback(
-    (event: FormEvent<HTMLFormElement>) => {
+    async (event: FormEvent<HTMLFormElement>) => {
       event.preventDefault();
       const trimmed = playerName.trim();
       if (!trimmed) return;
-      window.localStorage.setItem("zip-player-name", trimmed);
-      setPlayerName(trimmed);
-      setView("menu");
+      try {
+        await saveAccount(trimmed);
+        setPlayerName(trimmed);
+        setView("menu");
+      } catch (err) {
+        console.error(err);
+        alert("Failed to save your name");
+      }
     },
-    [playerName],
+    [playerName, saveAccount],
   );
 
   const createRoom = async (levelCount: 3 | 5 | 10) => {
@@ -48,11 +76,11 @@ export default function Home() {
       const res = await fetch("/api/room/create", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ hostName: playerName, levelCount }),
+        body: JSON.stringify({ levelCount }),
       });
       if (!res.ok) throw new Error("Failed to create room");
       const data = await res.json();
-      router.push(`/room/${data.room.id}?playerId=${data.player.id}`);
+      router.push(`/room/${data.room.id}`);
     } catch (err) {
       console.error(err);
       alert("Failed to create room");
@@ -69,11 +97,11 @@ export default function Home() {
       const res = await fetch("/api/room/join", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ roomId: roomCode.toUpperCase(), playerName }),
+        body: JSON.stringify({ roomId: roomCode.toUpperCase() }),
       });
       if (!res.ok) throw new Error("Room not found");
       const data = await res.json();
-      router.push(`/room/${data.room.id}?playerId=${data.player.id}`);
+      router.push(`/room/${data.room.id}`);
     } catch (err) {
       console.error(err);
       alert("Room not found or game started");
@@ -98,7 +126,7 @@ export default function Home() {
               </Button>
             </form>
           </CardContent>
-          <CardFooter>Tip: This name is stored locally.</CardFooter>
+          <CardFooter>Tip: This browser keeps your player account, so you can rename yourself any time.</CardFooter>
         </Card>
       </main>
     );
@@ -108,10 +136,31 @@ export default function Home() {
     <main className={`${pageBg} px-4 py-10 flex flex-col items-center justify-center gap-8`}>
       <div className="text-center space-y-2">
         <h1 className="text-5xl font-bold tracking-tight text-sky-700 lg:text-6xl">Zip</h1>
-        <p className="text-slate-500 font-medium">Multiplayer challenges</p>
+        <p className="text-slate-500 font-medium">Daily puzzles and multiplayer challenges</p>
       </div>
 
-      <div className="w-full max-w-md">
+      <div className="w-full max-w-md space-y-4">
+        <Card className="border-slate-200 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-slate-900">
+              <CalendarDays className="h-5 w-5 text-sky-600" />
+              Daily Puzzle
+            </CardTitle>
+            <CardDescription>One new puzzle a day. Race for a spot on today&apos;s leaderboard.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Button className="flex-1" onClick={() => router.push("/daily")}>
+              Play Today&apos;s Puzzle
+            </Button>
+            <Button variant="outline" onClick={() => router.push("/archive")}>
+              Archive
+            </Button>
+            <Button variant="outline" onClick={() => router.push("/stats")}>
+              Stats
+            </Button>
+          </CardContent>
+        </Card>
+
         <Card className="border-slate-200 bg-white shadow-sm">
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-slate-900">
@@ -179,14 +228,7 @@ export default function Home() {
         </Card>
       </div>
 
-      <button
-        className="text-sm font-medium text-slate-500 hover:text-sky-700 transition-colors"
-        onClick={() => {
-          window.localStorage.removeItem("zip-player-name");
-          setPlayerName("");
-          setView("name");
-        }}
-      >
+      <button className="text-sm font-medium text-slate-500 hover:text-sky-700 transition-colors" onClick={() => setView("name")}>
         Not {playerName}? Change Name
       </button>
 
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import ZipGrid from "@/components/game/ZipGrid";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { decodeReplay, replayMoves } from "@/engine/replay";
+import type { Puzzle } from "@/engine/types";
+import { Loader2, Pause, Play, RotateCcw } from "lucide-react";
+
+// Mirrors ReplayRecord in server/storage/types.ts
+interface ClientReplay {
+  id: string;
+  name: string;
+  puzzle: Puzzle;
+  replay: string;
+  timeMs: number;
+  source: { type: "daily" | "archive"; date: string } | { type: "room"; roomId: string; levelIndex: number };
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const pageBg = "min-h-screen w-full bg-slate-50 text-slate-900";
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export default function ReplayPage() {
+  const params = useParams();
+  const router = useRouter();
+  const replayId = params.id as string;
+
+  const [data, setData] = useState<ClientReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    fetch(`/api/replay/${replayId}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(res.status === 403 ? "This replay is hidden until you reach that level" : "Replay not found");
+        setData((await res.json()) as ClientReplay);
+        setIsPlaying(true);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [replayId]);
+
+  const moves = useMemo(() => (data ? (decodeReplay(data.replay) ?? []) : []), [data]);
+  const duration = moves.length > 0 ? moves[moves.length - 1].t : 0;
+
+  // Path on screen at the current playback time
+  const framePath = useMemo(() => {
+    if (!data) return [];
+    return replayMoves(
+      moves.filter((move) => move.t <= time),
+      data.puzzle,
+    ).path;
+  }, [data, moves, time]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const dt = (now - last) * speed;
+      last = now;
+      setTime((prev) => {
+        const next = Math.min(duration, prev + dt);
+        if (next >= duration) setIsPlaying(false);
+        return next;
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, duration]);
+
+  const togglePlay = () => {
+    if (!isPlaying && time >= duration) setTime(0);
+    setIsPlaying((prev) => !prev);
+  };
+
+  if (error) {
+    return (
+      <main className={`${pageBg} flex flex-col items-center justify-center gap-4`}>
+        <p className="font-medium text-slate-500">{error}</p>
+        <Button variant="outline" onClick={() => router.push("/")}>
+          Back to Home
+        </Button>
+      </main>
+    );
+  }
+
+  if (!data) {
+    return (
+      <main className={`${pageBg} flex items-center justify-center`}>
+        <Loader2 className="h-8 w-8 animate-spin text-sky-500" />
+      </main>
+    );
+  }
+
+  const sourceLabel = data.source.type === "room" ? `Room ${data.source.roomId} · Level ${data.source.levelIndex + 1}` : `${data.source.type === "daily" ? "Daily" : "Archive"} ${data.source.date}`;
+
+  return (
+    <main className={`${pageBg} px-2 sm:px-4 py-6 flex flex-col items-center gap-6`}>
+      <div className="text-center space-y-1">
+        <h1 className="text-3xl font-black text-slate-800">{data.name}</h1>
+        <p className="text-sm font-medium text-slate-500">
+          {sourceLabel} · {formatTime(data.timeMs)}
+        </p>
+      </div>
+
+      <div className="w-full max-w-[98vw] sm:max-w-[650px] md:max-w-[800px]">
+        <ZipGrid puzzle={data.puzzle} playback={framePath} />
+      </div>
+
+      <Card className="w-full max-w-[650px] border-slate-200 bg-white shadow-sm">
+        <CardContent className="flex flex-col gap-4 pt-6">
+          <div className="flex items-center gap-3">
+            <Button size="icon" onClick={togglePlay} aria-label={isPlaying ? "Pause" : "Play"}>
+              {isPlaying ? <Pause className="h-4 w-4" /> : time >= duration ? <RotateCcw className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={10}
+              value={time}
+              onChange={(e) => {
+                setIsPlaying(false);
+                setTime(Number(e.target.value));
+              }}
+              className="flex-1 accent-sky-600"
+              aria-label="Playback position"
+            />
+            <span className="w-24 text-right font-mono text-xs font-semibold text-slate-500">
+              {formatTime(time)} / {formatTime(duration)}
+            </span>
+          </div>
+          <div className="flex items-center justify-center gap-2">
+            {SPEEDS.map((s) => (
+              <Button key={s} size="sm" variant={s === speed ? "default" : "outline"} onClick={() => setSpeed(s)}>
+                {s}x
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -1,12 +1,20 @@
 "use client";
 
 import { useEffect, useState, useCallback, useMemo, useRef, Suspense } from "react";
-import { useParams, useSearchParams, useRouter } from "next/navigation";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
 import ZipGrid from "@/components/game/ZipGrid";
 import GameHeader from "@/components/game/GameHeader";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Trophy, Clock, CheckCircle2, Loader2, Copy } from "lucide-react";
+import { Trophy, Clock, CheckCircle2, Loader2, Copy, Crown, UserX, Lock, LockOpen, Timer, RotateCcw, Hourglass, LogOut, WifiOff } from "lucide-react";
+import RoomSettingsPanel, { MODES, type ClientRoomSettings } from "@/components/game/RoomSettingsPanel";
+import RoomChat from "@/components/game/RoomChat";
+import RoomSplitTable from "@/components/game/RoomSplitTable";
+import { connectRoomSocket, measureClockOffset, type RoomSocket } from "@/lib/room-socket";
+import { applyRoomDeltas } from "@/lib/room-delta";
+import { rankRoomPlayers, solvedLevelCount } from "@/lib/room-ranking";
+import type { ChatMessage, RoomResults } from "@/lib/room-protocol";
 
 function LoadingFallback() {
   return (
@@ -26,124 +34,240 @@ interface ClientRoomPlayer {
   currentLevel: number;
   finished: boolean;
   finishTime?: number;
+  replayIds?: string[];
+  levelStartedAt?: number;
+  skippedLevels?: number[];
+  levelFinishedAt?: number[];
+  points?: number; // Best-of only
+  eliminatedOnLevel?: number; // Elimination only
+  presence?: "online" | "away" | "disconnected";
+}
+
+// Mirrors LevelDraft in server/room-manager.ts
+interface ClientLevelDraft {
+  levelIndex: number;
+  path: Cell[];
+  replay: string;
 }
 
 interface ClientRoomBase {
   id: string;
   hostId: string;
   players: ClientRoomPlayer[];
-  status: "waiting" | "playing" | "finished";
+  status: "waiting" | "countdown" | "playing" | "finished";
+  locked: boolean;
+  preparing: boolean; // Levels are being built after the host pressed start
+  settings: ClientRoomSettings;
+  expiresAt: number;
+  rematchId?: string;
   createdAt: number;
+  startsAt?: number;
   startedAt?: number;
+  endsAt?: number; // Sprint only
 }
 
 interface ClientRoom extends ClientRoomBase {
-  levels: Puzzle[];
+  levels: (Puzzle | null)[]; // null until we reach the level
 }
 
 interface ClientRoomSummary extends ClientRoomBase {
   levelCount: number;
 }
 
-type RoomWsMessage = { type: "room:update"; room: ClientRoomSummary } | { type: "error"; error: string };
-
 const pageBg = "min-h-screen w-full bg-slate-50 text-slate-900";
 
+const presenceDots: Record<NonNullable<ClientRoomPlayer["presence"]>, string> = {
+  online: "bg-sky-500 animate-pulse",
+  away: "bg-amber-400",
+  disconnected: "bg-slate-300",
+};
+
+// Wait this long before reconnecting a dropped socket
+const RECONNECT_DELAY_MS = 2000;
+// How long "Go!" stays up after the countdown
+const GO_FLASH_MS = 800;
+
+// Take the latest summary but keep the levels we already have
+function mergeSummary(prev: ClientRoom | null, summary: ClientRoomSummary): ClientRoom | null {
+  if (!prev) return prev;
+  const { levelCount: _levelCount, ...rest } = summary;
+  return { ...prev, ...rest, levels: prev.levels };
+}
+
 export default function RoomPage() {
+  const params = useParams();
+  // Remount per room so following a rematch starts from a clean slate
   return (
     <Suspense fallback={<LoadingFallback />}>
-      <RoomPageContent />
+      <RoomPageContent key={params.id as string} />
     </Suspense>
   );
 }
 
 function RoomPageContent() {
   const params = useParams();
-  const searchParams = useSearchParams();
   const router = useRouter();
   const roomId = params.id as string;
-  const playerId = searchParams.get("playerId");
 
+  // Read-only look at the room before we are in it
+  const [preview, setPreview] = useState<ClientRoomSummary | null>(null);
   const [room, setRoom] = useState<ClientRoom | null>(null);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isCopied, setIsCopied] = useState(false);
-  const [wsConnected, setWsConnected] = useState(false);
-
-  const fetchRoom = useCallback(
-    async (includeLevels: boolean) => {
-      if (!roomId) return;
-      try {
-        const query = includeLevels ? "?includeLevels=1" : "";
-        const res = await fetch(`/api/room/${roomId}${query}`);
-        if (res.status === 404) {
-          setError("Room not found");
-          return;
-        }
-        if (!res.ok) throw new Error("Failed to fetch room");
-        const data = await res.json();
+  const [connected, setConnected] = useState(false);
+  // Bumped to open a fresh socket after the last one dropped
+  const [connectAttempt, setConnectAttempt] = useState(0);
+  // Our account id — room membership is checked against the account cookie, not the URL
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [wantsJoin, setWantsJoin] = useState(false);
+  // Set when the hub warns the room is about to expire
+  const [expiringAt, setExpiringAt] = useState<number | null>(null);
+  const [isRematching, setIsRematching] = useState(false);
+  // Our saved partial run — undefined until the join answers, so the grid mounts with it already in place
+  const [resume, setResume] = useState<ClientLevelDraft | null | undefined>(undefined);
+  // Why the server turned down our last solve, and a counter to remount the grid for another go
+  const [rejection, setRejection] = useState<{ levelIndex: number; error: string } | null>(null);
+  const [gridAttempt, setGridAttempt] = useState(0);
+  const socketRef = useRef<RoomSocket | null>(null);
+  // Server clock minus ours — server timestamps minus this are the same moment on our clock
+  const [clockOffset, setClockOffset] = useState(0);
+  // Sequence number of the room state we hold — null until a full summary arrives
+  const seqRef = useRef<number | null>(null);
 
-        if (includeLevels) {
-          setRoom(data);
+  useEffect(() => {
+    fetch("/api/player/me")
+      .then(async (res) => {
+        if (!res.ok) {
+          setError("Pick a name on the home page before joining a room");
           return;
         }
-
-        const summary = data as ClientRoomSummary;
-        setRoom((prev) => {
-          if (!prev) return prev;
-          const { levelCount: _levelCount, ...rest } = summary;
-          return { ...prev, ...rest, levels: prev.levels };
-        });
-      } catch (err) {
-        console.error(err);
-      }
-    },
-    [roomId],
-  );
+        const me = (await res.json()) as { id: string };
+        setPlayerId(me.id);
+      })
+      .catch((err) => console.error(err));
+  }, []);
 
   useEffect(() => {
-    fetchRoom(true);
-  }, [fetchRoom]);
+    if (!roomId) return;
+    fetch(`/api/room/${roomId}`)
+      .then(async (res) => {
+        if (res.status === 404) {
+          setError("Room not found");
+          return;
+        }
+        if (!res.ok) throw new Error("Failed to fetch room");
+        setPreview((await res.json()) as ClientRoomSummary);
+      })
+      .catch((err) => console.error(err));
+  }, [roomId]);
+
+  const applyJoin = useCallback((result: RoomResults["join"]) => {
+    seqRef.current = result.seq;
+    setRoom(result.room);
+    setResume(result.draft);
+    setChat(result.chat);
+  }, []);
+
+  // Members (and anyone who pressed Join) talk to the room over a single socket
+  const isListedMember = preview !== null && playerId !== null && preview.players.some((p) => p.id === playerId);
+  const shouldConnect = isListedMember || wantsJoin;
 
   useEffect(() => {
-    if (!roomId || !playerId) return;
-
-    const protocol = window.location.protocol === "https:" ? "wss" : "ws";
-    const ws = new WebSocket(`${protocol}://${window.location.host}/ws?roomId=${roomId}&playerId=${playerId}`);
-
-    ws.onopen = () => setWsConnected(true);
-    ws.onclose = () => setWsConnected(false);
-    ws.onerror = () => {
-      ws.close();
+    if (!roomId || !shouldConnect) return;
+
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    // Activity pushed the expiry back
+    const clearExpiryWarning = (expiresAt: number) => setExpiringAt((prev) => (prev !== null && expiresAt > prev ? null : prev));
+    const applySummary = (summary: ClientRoomSummary, seq: number) => {
+      seqRef.current = seq;
+      setRoom((prev) => mergeSummary(prev, summary));
+      clearExpiryWarning(summary.expiresAt);
     };
 
-    ws.onmessage = (event) => {
-      try {
-        const message = JSON.parse(event.data) as RoomWsMessage;
-        if (message.type === "room:update") {
-          const summary = message.room;
-          setRoom((prev) => {
-            if (!prev) return prev;
-            const { levelCount: _levelCount, ...rest } = summary;
-            return { ...prev, ...rest, levels: prev.levels };
-          });
-        } else if (message.type === "error") {
-          setError(message.error);
+    const socket = connectRoomSocket({
+      onOpen: () => {
+        setConnected(true);
+        // Let the hub know when this tab is hidden so others see us as away
+        socket.send({ type: "presence", away: document.hidden });
+        measureClockOffset(socket).then((offset) => {
+          if (offset !== null) setClockOffset(offset);
+        });
+      },
+      onEvent: (event) => {
+        if (event.type === "room:update") {
+          applySummary(event.room, event.seq);
+        } else if (event.type === "room:delta") {
+          const seq = seqRef.current;
+          // Still waiting for a full summary, or this change is already in the one we have
+          if (seq === null || event.seq <= seq) return;
+          if (event.seq !== seq + 1) {
+            // Missed a delta — start again from a full summary
+            seqRef.current = null;
+            socket.request({ type: "snapshot" }).then((res) => {
+              if (res.ok) applySummary(res.result.room, res.result.seq);
+            });
+            return;
+          }
+          seqRef.current = event.seq;
+          setRoom((prev) => prev && applyRoomDeltas(prev, event.changes));
+          for (const change of event.changes) {
+            if (change.op === "room:changed" && change.changes.expiresAt !== undefined) clearExpiryWarning(change.changes.expiresAt);
+          }
+        } else if (event.type === "chat") {
+          setChat((prev) => [...prev, event.message]);
+        } else if (event.type === "error") {
+          setError(event.error);
+        } else if (event.type === "kicked") {
+          setError("You were removed from the room by the host");
+        } else if (event.type === "room:expiring") {
+          setExpiringAt(event.expiresAt);
+        } else if (event.type === "room:expired") {
+          setError("This room expired after being left idle");
         }
-      } catch (err) {
-        console.error("Failed to parse websocket message", err);
-      }
-    };
+      },
+      onClose: (event) => {
+        setConnected(false);
+        socketRef.current = null;
+        seqRef.current = null;
+        // 1000 and 1008 are the hub closing on purpose (expired, kicked, signed out)
+        if (event.code !== 1000 && event.code !== 1008) {
+          reconnectTimer = setTimeout(() => setConnectAttempt((n) => n + 1), RECONNECT_DELAY_MS);
+        }
+      },
+    });
+    socketRef.current = socket;
+
+    socket.request({ type: "join", roomId }).then((res) => {
+      if (res.ok) applyJoin(res.result);
+      else if (res.code === "CONFLICT") setError("Could not join this room");
+      else if (res.code !== "DISCONNECTED") setError(res.error);
+    });
+
+    const sendPresence = () => socket.send({ type: "presence", away: document.hidden });
+    document.addEventListener("visibilitychange", sendPresence);
 
     return () => {
-      ws.close();
+      clearTimeout(reconnectTimer);
+      document.removeEventListener("visibilitychange", sendPresence);
+      socket.close();
+      socketRef.current = null;
     };
-  }, [roomId, playerId]);
+  }, [roomId, shouldConnect, connectAttempt, applyJoin]);
 
+  // Levels are generated when the game starts — join again to get them
+  const roomStatus = room?.status;
+  const wasWaitingRef = useRef(false);
   useEffect(() => {
-    if (!roomId || wsConnected || room) return;
-    const interval = setInterval(() => fetchRoom(false), 5000);
-    return () => clearInterval(interval);
-  }, [roomId, wsConnected, fetchRoom, room]);
+    if (roomStatus === "waiting") {
+      wasWaitingRef.current = true;
+    } else if (roomStatus && wasWaitingRef.current) {
+      wasWaitingRef.current = false;
+      socketRef.current?.request({ type: "join", roomId }).then((res) => {
+        if (res.ok) applyJoin(res.result);
+      });
+    }
+  }, [roomStatus, roomId, applyJoin]);
 
   const myPlayer = useMemo(() => {
     return room?.players.find((p) => p.id === playerId);
@@ -158,40 +282,132 @@ function RoomPageContent() {
   }, [myPlayer]);
 
   const startGame = async () => {
-    if (!room || !myPlayer) return;
-    try {
-      await fetch(`/api/room/${roomId}/start`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ hostId: myPlayer.id }),
-      });
-      // Polling will catch the status change
-    } catch (err) {
-      console.error(err);
+    const res = await socketRef.current?.request({ type: "start" });
+    if (res && !res.ok) {
+      console.error(res.error);
       alert("Failed to start game");
     }
   };
 
-  const handleLevelComplete = useCallback(
-    async (_path: Cell[], _timeMs: number) => {
-      const mp = myPlayerRef.current;
-      if (!mp) return;
-
-      try {
-        await fetch(`/api/room/${roomId}/progress`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            playerId: mp.id,
-            levelIndex: mp.currentLevel,
-          }),
-        });
-      } catch (err) {
-        console.error("Failed to submit progress", err);
+  const leaveRoom = async () => {
+    await socketRef.current?.request({ type: "leave" });
+    router.push("/");
+  };
+
+  // Someone started a rematch — everyone follows
+  const rematchId = room?.rematchId;
+  useEffect(() => {
+    if (rematchId) router.push(`/room/${rematchId}`);
+  }, [rematchId, router]);
+
+  const startRematch = async () => {
+    setIsRematching(true);
+    const res = await socketRef.current?.request({ type: "rematch" });
+    if (res?.ok) {
+      router.push(`/room/${res.result.roomId}`);
+      return;
+    }
+    console.error("Failed to start rematch", res?.error);
+    setIsRematching(false);
+  };
+
+  const updateSettings = async (settings: ClientRoomSettings) => {
+    const res = await socketRef.current?.request({ type: "settings", settings });
+    if (res && !res.ok) console.error("Settings rejected", res.error);
+  };
+
+  const sendChat = async (text: string) => {
+    const res = await socketRef.current?.request({ type: "chat", text });
+    if (res && !res.ok) console.error("Chat message rejected", res.error);
+  };
+
+  // Per-level time limit — once it runs out, ask the server to move us on
+  const levelTimeLimitS = room?.status === "playing" ? room.settings.levelTimeLimitS : undefined;
+  const levelStartedAt = myPlayer?.levelStartedAt !== undefined ? myPlayer.levelStartedAt - clockOffset : undefined;
+  const currentLevelIndex = myPlayer?.currentLevel;
+  // The race starts at the server's `startsAt` — on our clock, that is this
+  const startsAt = room?.startsAt !== undefined ? room.startsAt - clockOffset : undefined;
+  // A sprint's clock — the server ends the room when it runs out
+  const sprintEndsAt = room?.status === "playing" && room.endsAt !== undefined ? room.endsAt - clockOffset : undefined;
+  const [now, setNow] = useState(() => Date.now());
+  // Tick while a level or sprint is on the clock, and through the countdown until "Go!" has been shown
+  const isTicking = !!levelTimeLimitS || sprintEndsAt !== undefined || (startsAt !== undefined && now < startsAt + GO_FLASH_MS);
+  useEffect(() => {
+    if (!isTicking) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [isTicking]);
+  const countdownMs = startsAt !== undefined && now < startsAt + GO_FLASH_MS ? startsAt - now : null;
+  const isLocked = countdownMs !== null && countdownMs > 0;
+  const remainingMs = levelTimeLimitS && levelStartedAt !== undefined ? Math.max(0, levelStartedAt + levelTimeLimitS * 1000 - now) : null;
+  const timedOut = remainingMs === 0;
+  const sprintRemainingMs = sprintEndsAt !== undefined ? Math.max(0, sprintEndsAt - now) : null;
+
+  useEffect(() => {
+    if (!timedOut || !connected || currentLevelIndex === undefined) return;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const skip = async () => {
+      const res = await socketRef.current?.request({ type: "skip", levelIndex: currentLevelIndex });
+      // Our clock may run a little ahead of the server's — try again shortly
+      if (res && !res.ok && res.code === "CONFLICT") retryTimer = setTimeout(skip, 1000);
+    };
+    skip();
+    return () => clearTimeout(retryTimer);
+  }, [timedOut, connected, currentLevelIndex]);
+
+  // Levels are revealed as we reach them — fetch ours when it is still hidden
+  const needsLevel = (room?.status === "countdown" || room?.status === "playing") && myPlayer !== undefined && !myPlayer.finished && room.levels[myPlayer.currentLevel] === null;
+  useEffect(() => {
+    if (!needsLevel || !connected || currentLevelIndex === undefined) return;
+    socketRef.current?.request({ type: "level", levelIndex: currentLevelIndex }).then((res) => {
+      if (!res.ok) {
+        console.error("Failed to load level", res.error);
+        return;
       }
-    },
-    [roomId],
-  );
+      setRoom((prev) => prev && { ...prev, levels: prev.levels.map((level, i) => (i === currentLevelIndex ? res.result.level : level)) });
+    });
+  }, [needsLevel, connected, currentLevelIndex]);
+
+  // Kick / transfer-host / lock / unlock — the room hub pushes the result back to everyone
+  const hostAction = async (action: "kick" | "transfer-host" | "lock" | "unlock", targetId?: string) => {
+    const socket = socketRef.current;
+    if (!socket) return;
+    const res = action === "lock" || action === "unlock" ? await socket.request({ type: "lock", locked: action === "lock" }) : await socket.request({ type: action, playerId: targetId ?? "" });
+    if (!res.ok) console.error("Host action rejected", res.error);
+  };
+
+  // Save the path as it is drawn (debounced) so a reload can resume it
+  const draftTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const saveDraft = useCallback((path: Cell[], replay: string) => {
+    const mp = myPlayerRef.current;
+    if (!mp) return;
+    clearTimeout(draftTimerRef.current);
+    draftTimerRef.current = setTimeout(async () => {
+      const res = await socketRef.current?.request({ type: "draft", levelIndex: mp.currentLevel, path, replay });
+      if (res && !res.ok) console.error("Failed to save draft", res.error);
+    }, 400);
+  }, []);
+
+  const handleLevelComplete = useCallback(async (path: Cell[], _timeMs: number, replay: string) => {
+    const mp = myPlayerRef.current;
+    if (!mp) return;
+    clearTimeout(draftTimerRef.current);
+
+    const res = await socketRef.current?.request({ type: "progress", levelIndex: mp.currentLevel, path, replay });
+    if (!res) {
+      setRejection({ levelIndex: mp.currentLevel, error: "Not connected to the room — try again once it reconnects" });
+    } else if (!res.ok && res.reason !== "TIME_UP") {
+      // A timed-out level is skipped by the countdown instead
+      console.error("Progress rejected", res.reason, res.error);
+      setRejection({ levelIndex: mp.currentLevel, error: res.error });
+    }
+  }, []);
+
+  const retryLevel = () => {
+    setRejection(null);
+    setResume(null);
+    setGridAttempt((n) => n + 1);
+  };
 
   const copyCode = () => {
     navigator.clipboard.writeText(roomId);
@@ -213,6 +429,28 @@ function RoomPageContent() {
     );
   }
 
+  // Opened a shared room link without being in the room yet
+  if (preview && playerId && !isListedMember && !room) {
+    return (
+      <main className={`${pageBg} flex items-center justify-center`}>
+        <div className="text-center bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
+          <h1 className="text-2xl font-bold mb-2 text-slate-800">Room {preview.id}</h1>
+          <p className="text-slate-600">{preview.status !== "waiting" ? "This game has already started." : preview.locked ? "The host has locked this room." : `${preview.players.length} player(s) waiting in the lobby.`}</p>
+          <div className="mt-4 flex justify-center gap-2">
+            {preview.status === "waiting" && !preview.locked && (
+              <Button onClick={() => setWantsJoin(true)} disabled={wantsJoin}>
+                Join Room
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => router.push("/")}>
+              Go Home
+            </Button>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
   if (!room || !myPlayer) {
     return (
       <main className={`${pageBg} flex items-center justify-center`}>
@@ -223,6 +461,13 @@ function RoomPageContent() {
     );
   }
 
+  const expiryBanner = expiringAt !== null && (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 rounded-full border border-amber-200 bg-amber-50 px-4 py-2 text-sm font-semibold text-amber-700 shadow-sm">
+      <Hourglass className="h-4 w-4" />
+      This room closes at {new Date(expiringAt).toLocaleTimeString()} unless something happens
+    </div>
+  );
+
   // --- LOBBY VIEW ---
   if (room.status === "waiting") {
     const isHost = room.hostId === myPlayer.id;
@@ -247,7 +492,22 @@ function RoomPageContent() {
             </div>
 
             <div className="space-y-3">
-              <h3 className="font-bold text-xs text-slate-400 uppercase tracking-wider">Players ({room.players.length})</h3>
+              <div className="flex items-center justify-between">
+                <h3 className="font-bold text-xs text-slate-400 uppercase tracking-wider">Players ({room.players.length})</h3>
+                {isHost ? (
+                  <Button size="sm" variant="ghost" className="h-7 gap-1 text-xs text-slate-500" onClick={() => hostAction(room.locked ? "unlock" : "lock")}>
+                    {room.locked ? <Lock className="h-3.5 w-3.5" /> : <LockOpen className="h-3.5 w-3.5" />}
+                    {room.locked ? "Locked" : "Open"}
+                  </Button>
+                ) : (
+                  room.locked && (
+                    <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wide text-slate-500">
+                      <Lock className="h-3 w-3" />
+                      Locked
+                    </span>
+                  )
+                )}
+              </div>
               <div className="space-y-2">
                 {room.players.map((p) => (
                   <div key={p.id} className="flex items-center justify-between rounded-lg border border-slate-200 p-3 bg-white">
@@ -257,36 +517,67 @@ function RoomPageContent() {
                         {p.name} {p.id === myPlayer.id && <span className="opacity-50 text-sm font-normal">(You)</span>}
                       </span>
                     </div>
-                    {p.id === room.hostId && <span className="text-[10px] bg-sky-100 text-sky-700 px-2 py-0.5 rounded-full font-bold uppercase tracking-wide border border-sky-200">HOST</span>}
+                    {p.id === room.hostId ? (
+                      <span className="text-[10px] bg-sky-100 text-sky-700 px-2 py-0.5 rounded-full font-bold uppercase tracking-wide border border-sky-200">HOST</span>
+                    ) : (
+                      isHost && (
+                        <div className="flex items-center gap-1">
+                          <Button size="icon" variant="ghost" className="h-8 w-8 text-slate-400 hover:text-sky-600" onClick={() => hostAction("transfer-host", p.id)} aria-label={`Make ${p.name} host`} title="Make host">
+                            <Crown className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" className="h-8 w-8 text-slate-400 hover:text-red-600" onClick={() => hostAction("kick", p.id)} aria-label={`Kick ${p.name}`} title="Kick">
+                            <UserX className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )
+                    )}
                   </div>
                 ))}
               </div>
             </div>
 
+            <RoomSettingsPanel settings={room.settings} playerCount={room.players.length} editable={isHost && !room.preparing} onChange={updateSettings} />
+
+            <RoomChat messages={chat} myId={myPlayer.id} onSend={sendChat} />
+
             {isHost ? (
-              <Button className="w-full h-12 text-lg font-bold" onClick={startGame}>
-                Start Game
+              <Button className="w-full h-12 text-lg font-bold" onClick={startGame} disabled={!connected || room.preparing}>
+                {room.preparing ? "Preparing levels..." : "Start Game"}
               </Button>
             ) : (
               <div className="flex items-center justify-center gap-2 text-slate-500 py-2">
                 <Clock className="h-4 w-4" />
-                <span className="font-medium">Waiting for start...</span>
+                <span className="font-medium">{room.preparing ? "Preparing levels..." : "Waiting for start..."}</span>
               </div>
             )}
+
+            <Button variant="ghost" className="w-full gap-2 text-slate-500" onClick={leaveRoom}>
+              <LogOut className="h-4 w-4" />
+              Leave Room
+            </Button>
           </CardContent>
         </Card>
+        {expiryBanner}
       </main>
     );
   }
 
   // --- PLAYING/FINISHED VIEW ---
 
-  const leaderboard = [...room.players].sort((a, b) => {
-    if (a.finished && b.finished) return (a.finishTime || 0) - (b.finishTime || 0);
-    if (a.finished) return -1;
-    if (b.finished) return 1;
-    return b.currentLevel - a.currentLevel;
-  });
+  const mode = room.settings.mode ?? "race";
+  const leaderboard = rankRoomPlayers(room.players, mode);
+  const modeLabel = MODES.find((m) => m.value === mode)?.label ?? "Race";
+
+  // What each player is ranked on — finish time in a race or elimination, solved levels in a sprint, points in best-of
+  const standing = (p: ClientRoomPlayer) => {
+    if (mode === "sprint") return `${solvedLevelCount(p)} solved`;
+    if (mode === "best-of") return `${p.points ?? 0} pts`;
+    if (p.eliminatedOnLevel !== undefined) return "Out";
+    // Measured from the start of the game, not from when the room was opened
+    return p.finishTime && room.startedAt ? ((p.finishTime - room.startedAt) / 1000).toFixed(1) + "s" : "...";
+  };
+  const hasStanding = (p: ClientRoomPlayer) => mode === "sprint" || mode === "best-of" || p.finished;
+  const isEliminated = myPlayer.eliminatedOnLevel !== undefined;
 
   if (room.status === "finished" || myPlayer.finished) {
     return (
@@ -296,8 +587,8 @@ function RoomPageContent() {
             <div className="mx-auto inline-flex h-24 w-24 items-center justify-center rounded-full bg-sky-100 shadow-sm">
               <Trophy className="h-12 w-12 text-sky-600" />
             </div>
-            <h1 className="text-4xl sm:text-5xl font-black text-slate-800">{room.status === "finished" ? "Game Over!" : "Finished!"}</h1>
-            <p className="text-slate-500 font-medium">{room.status === "finished" ? "Final Standings" : "Waiting for others..."}</p>
+            <h1 className="text-4xl sm:text-5xl font-black text-slate-800">{room.status === "finished" ? "Game Over!" : isEliminated ? "Eliminated!" : "Finished!"}</h1>
+            <p className="text-slate-500 font-medium">{room.status === "finished" ? `${modeLabel} · Final Standings` : isEliminated ? `You were last on level ${myPlayer.eliminatedOnLevel! + 1} — waiting for the others...` : "Waiting for others..."}</p>
           </div>
 
           <Card className="w-full border-slate-200 bg-white shadow-sm">
@@ -307,8 +598,7 @@ function RoomPageContent() {
             <CardContent>
               <div className="space-y-3">
                 {leaderboard.map((p, i) => {
-                  const time = p.finishTime ? ((p.finishTime - room.createdAt) / 1000).toFixed(1) + "s" : "--";
-                  const isWinner = i === 0 && p.finished;
+                  const isWinner = i === 0 && (room.status === "finished" || (p.finished && p.eliminatedOnLevel === undefined));
                   return (
                     <div key={p.id} className={`flex items-center justify-between p-4 rounded-xl border ${isWinner ? "bg-sky-50 border-sky-200" : "bg-white border-slate-200"}`}>
                       <div className="flex items-center gap-4">
@@ -317,10 +607,22 @@ function RoomPageContent() {
                           <p className={`font-bold ${p.id === myPlayer.id ? "text-sky-600" : "text-slate-700"}`}>
                             {p.name} {p.id === myPlayer.id && "(You)"}
                           </p>
-                          <p className="text-xs text-slate-400 font-medium uppercase tracking-wide">{p.finished ? "Finished" : `Level ${p.currentLevel + 1}/${room.levels.length}`}</p>
+                          <p className="text-xs text-slate-400 font-medium uppercase tracking-wide">
+                            {p.eliminatedOnLevel !== undefined ? `Out on level ${p.eliminatedOnLevel + 1}` : p.finished ? "Finished" : `Level ${p.currentLevel + 1}/${room.levels.length}`}
+                            {p.skippedLevels && p.skippedLevels.length > 0 && ` · ${p.skippedLevels.length} timed out`}
+                          </p>
+                          {p.replayIds && p.replayIds.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {p.replayIds.map((replayId, level) => (
+                                <Link key={replayId} href={`/replay/${replayId}`} className="rounded border border-slate-200 px-1.5 py-0.5 text-[10px] font-semibold text-slate-500 hover:border-sky-300 hover:text-sky-700">
+                                  L{level + 1}
+                                </Link>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
-                      <div className={`font-mono font-bold ${p.finished ? "text-slate-900" : "text-slate-400 italic"}`}>{p.finished ? time : "..."}</div>
+                      <div className={`font-mono font-bold ${hasStanding(p) ? "text-slate-900" : "text-slate-400 italic"}`}>{standing(p)}</div>
                     </div>
                   );
                 })}
@@ -328,16 +630,38 @@ function RoomPageContent() {
             </CardContent>
           </Card>
 
-          <Button variant="outline" className="text-slate-600 hover:text-slate-800 border-slate-200" onClick={() => router.push("/")}>
-            Back to Home
-          </Button>
+          {room.startedAt !== undefined && (
+            <Card className="w-full border-slate-200 bg-white shadow-sm">
+              <CardHeader>
+                <CardTitle>Splits</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RoomSplitTable players={leaderboard} levelCount={room.levels.length} startedAt={room.startedAt} myId={myPlayer.id} />
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="flex gap-2">
+            {room.status === "finished" && (
+              <Button onClick={startRematch} disabled={isRematching} className="gap-2">
+                <RotateCcw className="h-4 w-4" />
+                Rematch
+              </Button>
+            )}
+            <Button variant="outline" className="text-slate-600 hover:text-slate-800 border-slate-200" onClick={() => router.push("/")}>
+              Back to Home
+            </Button>
+          </div>
         </div>
+        {expiryBanner}
       </main>
     );
   }
 
   // --- PLAYING VIEW ---
   const currentPuzzle = room.levels[myPlayer.currentLevel];
+  // Race clock on our side — the countdown's end until the server confirms the start
+  const raceStart = (room.startedAt ?? room.startsAt)! - clockOffset;
 
   return (
     <main className={`${pageBg} px-2 sm:px-4 py-6 flex flex-col items-center`}>
@@ -348,16 +672,56 @@ function RoomPageContent() {
             <h2 className="text-xl font-bold text-slate-700">
               Level {myPlayer.currentLevel + 1} <span className="text-slate-400 text-base font-normal">/ {room.levels.length}</span>
             </h2>
-            <div className="text-xs font-bold font-mono bg-slate-100 text-slate-600 border border-slate-200 px-3 py-1.5 rounded-full">Room: {room.id}</div>
+            <div className="flex items-center gap-2">
+              {!connected && (
+                <div className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-amber-50 text-amber-700 border-amber-200">
+                  <WifiOff className="h-3.5 w-3.5" />
+                  Reconnecting
+                </div>
+              )}
+              {sprintRemainingMs !== null && (
+                <div className={`flex items-center gap-1 text-xs font-bold font-mono px-3 py-1.5 rounded-full border ${sprintRemainingMs < 10_000 ? "bg-red-50 text-red-600 border-red-200" : "bg-sky-50 text-sky-700 border-sky-200"}`} title="Time left in the sprint">
+                  <Hourglass className="h-3.5 w-3.5" />
+                  {Math.floor(sprintRemainingMs / 60_000)}:{String(Math.floor((sprintRemainingMs % 60_000) / 1000)).padStart(2, "0")}
+                </div>
+              )}
+              {remainingMs !== null && (
+                <div className={`flex items-center gap-1 text-xs font-bold font-mono px-3 py-1.5 rounded-full border ${remainingMs < 10_000 ? "bg-red-50 text-red-600 border-red-200" : "bg-slate-100 text-slate-600 border-slate-200"}`}>
+                  <Timer className="h-3.5 w-3.5" />
+                  {Math.ceil(remainingMs / 1000)}s
+                </div>
+              )}
+              <div className="text-xs font-bold font-mono bg-slate-100 text-slate-600 border border-slate-200 px-3 py-1.5 rounded-full">Room: {room.id}</div>
+            </div>
           </div>
           {/* Constrain header matching grid */}
           <div className="w-full max-w-[98vw] sm:max-w-[650px] md:max-w-[800px] lg:max-w-[1000px] xl:max-w-[1200px]">
-            <GameHeader difficulty={currentPuzzle.difficulty} date={currentPuzzle.date} gridSize={currentPuzzle.size} isComplete={false} startTime={room.startedAt} />
+            {currentPuzzle && <GameHeader difficulty={currentPuzzle.difficulty} date={currentPuzzle.date} rows={currentPuzzle.rows} cols={currentPuzzle.cols} isComplete={false} startTime={raceStart} />}
           </div>
 
-          <ZipGrid key={currentPuzzle.id} puzzle={currentPuzzle} onComplete={handleLevelComplete} startTime={room.startedAt} />
+          {rejection?.levelIndex === myPlayer.currentLevel && (
+            <div className="flex items-center gap-3 rounded-xl border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">
+              <span className="font-medium">Not accepted: {rejection.error}</span>
+              <Button size="sm" variant="outline" className="h-7 border-red-200 text-red-700 hover:bg-red-100" onClick={retryLevel}>
+                Try again
+              </Button>
+            </div>
+          )}
+
+          {resume === undefined || !currentPuzzle ? (
+            <Loader2 className="h-8 w-8 animate-spin text-sky-500" />
+          ) : (
+            // Remounted when the countdown ends, so the replay is timed from the start of the race
+            <ZipGrid key={`${currentPuzzle.id}-${gridAttempt}-${isLocked ? "countdown" : "race"}`} puzzle={currentPuzzle} onComplete={handleLevelComplete} startTime={raceStart} resume={resume?.levelIndex === myPlayer.currentLevel ? resume : undefined} onPathChange={saveDraft} locked={isLocked} />
+          )}
         </div>
 
+        {countdownMs !== null && (
+          <div className={`fixed inset-0 z-50 flex items-center justify-center ${isLocked ? "bg-white/80 backdrop-blur-sm" : "pointer-events-none"}`}>
+            <span className="animate-pulse text-8xl font-black tabular-nums text-sky-600 drop-shadow-sm">{isLocked ? Math.ceil(countdownMs / 1000) : "Go!"}</span>
+          </div>
+        )}
+
         {/* SIDEBAR - Now visible on all devices, stacked below on mobile */}
         <div className="w-full max-w-[90vw] sm:max-w-[520px] md:max-w-[620px] lg:max-w-none space-y-4 mx-auto lg:mx-0">
           <Card className="border-slate-200 bg-white shadow-sm">
@@ -368,16 +732,22 @@ function RoomPageContent() {
               {leaderboard.map((p) => (
                 <div key={p.id} className="flex items-center justify-between text-sm">
                   <div className="flex items-center gap-3">
-                    <div className={`h-2.5 w-2.5 rounded-full ring-2 ring-slate-200 ${p.finished ? "bg-emerald-500" : "bg-sky-500 animate-pulse"}`} />
+                    <div className={`h-2.5 w-2.5 rounded-full ring-2 ring-slate-200 ${p.finished ? "bg-emerald-500" : presenceDots[p.presence ?? "online"]}`} title={p.presence} />
                     <span className={`font-medium ${p.id === myPlayer.id ? "text-sky-600 font-bold" : "text-slate-700"}`}>{p.name}</span>
+                    {p.presence && p.presence !== "online" && <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">{p.presence}</span>}
                   </div>
-                  <span className="text-slate-400 font-mono text-xs font-bold">{p.finished ? <CheckCircle2 className="h-4 w-4 text-green-500" /> : `${p.currentLevel + 1} / ${room.levels.length}`}</span>
+                  <span className="flex items-center gap-2 text-slate-400 font-mono text-xs font-bold">
+                    {(mode === "sprint" || mode === "best-of") && <span className="text-sky-600">{standing(p)}</span>}
+                    {p.eliminatedOnLevel !== undefined ? <span className="text-red-400">Out</span> : p.finished ? <CheckCircle2 className="h-4 w-4 text-green-500" /> : `${p.currentLevel + 1} / ${room.levels.length}`}
+                  </span>
                 </div>
               ))}
             </CardContent>
           </Card>
+          <RoomChat messages={chat} myId={myPlayer.id} onSend={sendChat} />
         </div>
       </div>
+      {expiryBanner}
     </main>
   );
 }
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BarChart3, Flame, Grid3x3, Loader2 } from "lucide-react";
+
+// Mirrors PlayerStats in server/player-stats.ts
+interface ClientPlayerStats {
+  totalSolves: number;
+  currentStreak: number;
+  longestStreak: number;
+  solvesByDifficulty: Record<"easy" | "medium" | "hard", number>;
+  gridSizes: { size: string; solves: number; bestMs: number; averageMs: number }[];
+  histogram: { minS: number; maxS: number | null; count: number }[];
+}
+
+const pageBg = "min-h-screen w-full bg-slate-50 text-slate-900";
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const formatBucket = (minS: number, maxS: number | null) => {
+  const label = (s: number) => (s >= 60 ? `${s / 60}m` : `${s}s`);
+  return maxS === null ? `${label(minS)}+` : `<${label(maxS)}`;
+};
+
+export default function StatsPage() {
+  const router = useRouter();
+  const [name, setName] = useState<string | null>(null);
+  const [stats, setStats] = useState<ClientPlayerStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      // No account yet means nothing has been posted from this browser
+      const meRes = await fetch("/api/player/me");
+      if (!meRes.ok) return;
+      const me = (await meRes.json()) as { id: string };
+
+      const res = await fetch(`/api/player/${me.id}/stats`);
+      if (!res.ok) throw new Error("Failed to fetch stats");
+      const data = (await res.json()) as { player: { name: string }; stats: ClientPlayerStats };
+      setName(data.player.name);
+      setStats(data.stats);
+    };
+
+    load()
+      .catch((err) => console.error(err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  if (isLoading) {
+    return (
+      <main className={`${pageBg} flex items-center justify-center`}>
+        <Loader2 className="h-8 w-8 animate-spin text-sky-500" />
+      </main>
+    );
+  }
+
+  const maxBucket = Math.max(1, ...(stats?.histogram.map((b) => b.count) ?? []));
+
+  return (
+    <main className={`${pageBg} px-4 py-8 flex flex-col items-center gap-8`}>
+      <div className="text-center space-y-2">
+        <h1 className="text-4xl font-black text-slate-800">{name ? `${name}'s Stats` : "Your Stats"}</h1>
+        <p className="text-slate-500 font-medium">{stats ? `${stats.totalSolves} dailies solved` : "Post a daily time to start tracking your stats."}</p>
+      </div>
+
+      {stats && (
+        <div className="w-full max-w-3xl grid gap-4 sm:grid-cols-2">
+          <Card className="border-slate-200 bg-white shadow-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-sm font-bold uppercase tracking-wider text-slate-500">
+                <Flame className="h-4 w-4 text-orange-500" />
+                Streak
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="flex justify-around text-center">
+              <div>
+                <p className="text-4xl font-black text-slate-800">{stats.currentStreak}</p>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">Current</p>
+              </div>
+              <div>
+                <p className="text-4xl font-black text-slate-800">{stats.longestStreak}</p>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">Longest</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="border-slate-200 bg-white shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-sm font-bold uppercase tracking-wider text-slate-500">Solves by Difficulty</CardTitle>
+            </CardHeader>
+            <CardContent className="flex justify-around text-center">
+              {(["easy", "medium", "hard"] as const).map((difficulty) => (
+                <div key={difficulty}>
+                  <p className="text-3xl font-black text-slate-800">{stats.solvesByDifficulty[difficulty]}</p>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">{difficulty}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card className="border-slate-200 bg-white shadow-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-sm font-bold uppercase tracking-wider text-slate-500">
+                <Grid3x3 className="h-4 w-4 text-sky-600" />
+                By Grid Size
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wide text-slate-400">
+                    <th className="pb-2 font-semibold">Size</th>
+                    <th className="pb-2 font-semibold">Solves</th>
+                    <th className="pb-2 font-semibold">Best</th>
+                    <th className="pb-2 font-semibold">Average</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.gridSizes.map((row) => (
+                    <tr key={row.size} className="border-t border-slate-100">
+                      <td className="py-2 font-semibold text-slate-700">{row.size}</td>
+                      <td className="py-2 text-slate-600">{row.solves}</td>
+                      <td className="py-2 font-mono text-slate-900">{formatTime(row.bestMs)}</td>
+                      <td className="py-2 font-mono text-slate-600">{formatTime(row.averageMs)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card className="border-slate-200 bg-white shadow-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-sm font-bold uppercase tracking-wider text-slate-500">
+                <BarChart3 className="h-4 w-4 text-sky-600" />
+                Solve Times
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex h-36 items-end gap-1.5">
+                {stats.histogram.map((bucket) => (
+                  <div key={bucket.minS} className="flex flex-1 flex-col items-center gap-1">
+                    <span className="text-[10px] font-semibold text-slate-400">{bucket.count || ""}</span>
+                    <div className="w-full rounded-t bg-sky-500" style={{ height: `${(bucket.count / maxBucket) * 96}px` }} />
+                    <span className="text-[10px] font-semibold text-slate-500">{formatBucket(bucket.minS, bucket.maxS)}</span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={() => router.push("/daily")}>Play Today&apos;s Puzzle</Button>
+        <Button variant="outline" className="text-slate-600 hover:text-slate-800 border-slate-200" onClick={() => router.push("/")}>
+          Back to Home
+        </Button>
+      </div>
+    </main>
+  );
+}
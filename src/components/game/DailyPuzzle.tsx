@@ -0,0 +1,245 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import ZipGrid from "@/components/game/ZipGrid";
+import GameHeader from "@/components/game/GameHeader";
+import HowToPlay from "@/components/game/HowToPlay";
+import LeaderboardCard, { type ClientLeaderboardEntry } from "@/components/game/LeaderboardCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import type { Cell, HintResult, Puzzle } from "@/engine/types";
+
+interface DailyPuzzleProps {
+  date?: string; // A past daily to replay for the archive board; today's puzzle when omitted
+}
+
+// A finished run, kept until the player posts it
+interface CompletedRun {
+  path: Cell[];
+  replay: string;
+  timeMs: number; // Client-side time, shown until the server reports its own
+  valid: boolean;
+  finishToken?: string; // Server stamp of when the path was checked — the posted time stops there, not at "Post time"
+  error?: string;
+}
+
+const pageBg = "min-h-screen w-full bg-slate-50 text-slate-900";
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/** The single-player daily game — today's puzzle at /daily, past ones from the archive */
+export default function DailyPuzzle({ date }: DailyPuzzleProps) {
+  const router = useRouter();
+  const isArchive = date !== undefined;
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [leaderboard, setLeaderboard] = useState<ClientLeaderboardEntry[]>([]);
+  const [archiveBoard, setArchiveBoard] = useState<ClientLeaderboardEntry[]>([]);
+
+  const [playerName, setPlayerName] = useState("");
+  const [run, setRun] = useState<CompletedRun | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+  const [posted, setPosted] = useState<{ timeMs: number } | null>(null);
+
+  const fetchLeaderboard = useCallback(async () => {
+    try {
+      if (date) {
+        const res = await fetch(`/api/leaderboard/${date}`);
+        if (!res.ok) throw new Error("Failed to fetch leaderboard");
+        const boards = (await res.json()) as { daily: ClientLeaderboardEntry[]; archive: ClientLeaderboardEntry[] };
+        setLeaderboard(boards.daily);
+        setArchiveBoard(boards.archive);
+        return;
+      }
+      const res = await fetch("/api/leaderboard");
+      if (!res.ok) throw new Error("Failed to fetch leaderboard");
+      setLeaderboard(await res.json());
+    } catch (err) {
+      console.error(err);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    setPlayerName(window.localStorage.getItem("zip-player-name") ?? "");
+
+    const load = async () => {
+      try {
+        const puzzleRes = await fetch(date ? `/api/puzzle/${date}` : "/api/puzzle/daily");
+        if (!puzzleRes.ok) throw new Error("Failed to load the puzzle");
+        const daily = (await puzzleRes.json()) as Puzzle;
+
+        // The server times the run from here, so start the session just before showing the grid
+        const startRes = await fetch(date ? `/api/puzzle/${date}/start` : "/api/puzzle/daily/start", { method: "POST" });
+        if (!startRes.ok) throw new Error("Failed to start the puzzle");
+        const { token } = (await startRes.json()) as { token: string };
+
+        setSessionToken(token);
+        setPuzzle(daily);
+      } catch (err) {
+        console.error(err);
+        setError(date ? "This puzzle is not available" : "Failed to load today's puzzle");
+      }
+    };
+
+    load();
+    fetchLeaderboard();
+  }, [date, fetchLeaderboard]);
+
+  const handleHint = useCallback(
+    async (path: Cell[]): Promise<HintResult | null> => {
+      if (!puzzle || !sessionToken) return null;
+      // Hints are counted against this run's session, and a hinted run is marked on the leaderboard
+      const query = new URLSearchParams({ path: path.map((c) => `${c.row},${c.col}`).join(";"), token: sessionToken });
+      try {
+        const res = await fetch(`/api/puzzle/${puzzle.date}/hint?${query}`);
+        if (!res.ok) throw new Error("Failed to fetch hint");
+        return (await res.json()) as HintResult;
+      } catch (err) {
+        console.error(err);
+        return null;
+      }
+    },
+    [puzzle, sessionToken],
+  );
+
+  const handleComplete = useCallback(
+    async (path: Cell[], timeMs: number, replay: string) => {
+      if (!puzzle) return;
+      setRun({ path, replay, timeMs, valid: false });
+      try {
+        const res = await fetch("/api/puzzle/validate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ date: puzzle.date, path, token: sessionToken ?? undefined }),
+        });
+        const result = (await res.json()) as { valid: boolean; error?: string; finishToken?: string };
+        setRun({ path, replay, timeMs, valid: result.valid, error: result.error, finishToken: result.finishToken });
+      } catch (err) {
+        console.error(err);
+        setRun({ path, replay, timeMs, valid: false, error: "Could not reach the server" });
+      }
+    },
+    [puzzle, sessionToken],
+  );
+
+  const postTime = async (event: FormEvent) => {
+    event.preventDefault();
+    const name = playerName.trim();
+    if (!run || !sessionToken || !name) return;
+
+    setIsPosting(true);
+    try {
+      // Times are posted under the account, so save the name (creating the account if needed) first
+      const accountRes = await fetch("/api/player/me", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!accountRes.ok) throw new Error("Failed to save player");
+      window.localStorage.setItem("zip-player-name", name);
+
+      const res = await fetch("/api/leaderboard", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: sessionToken, path: run.path, replay: run.replay, finishToken: run.finishToken }),
+      });
+      const result = (await res.json()) as { success: boolean; timeMs?: number; error?: string };
+      if (!result.success) {
+        setRun({ ...run, error: result.error ?? "Submission rejected" });
+        return;
+      }
+      setPosted({ timeMs: result.timeMs ?? run.timeMs });
+      fetchLeaderboard();
+    } catch (err) {
+      console.error(err);
+      setRun({ ...run, error: "Could not reach the server" });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <main className={`${pageBg} flex flex-col items-center justify-center gap-4`}>
+        <p className="font-medium text-slate-500">{error}</p>
+        <Button variant="outline" onClick={() => router.push("/")}>
+          Back to Home
+        </Button>
+      </main>
+    );
+  }
+
+  if (!puzzle) {
+    return (
+      <main className={`${pageBg} flex items-center justify-center`}>
+        <div className="bg-white p-6 rounded-full border border-slate-200 shadow-sm">
+          <Loader2 className="h-8 w-8 animate-spin text-sky-500" />
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className={`${pageBg} px-2 sm:px-4 py-6 flex flex-col items-center`}>
+      <div className="w-full max-w-[2000px] flex flex-col gap-8 lg:grid lg:grid-cols-[1fr_400px] items-start">
+        {/* MAIN GAME AREA */}
+        <div className="flex flex-col items-center gap-6 w-full">
+          <div className="w-full max-w-[98vw] sm:max-w-[650px] md:max-w-[800px] lg:max-w-[1000px] xl:max-w-[1200px]">
+            <GameHeader difficulty={puzzle.difficulty} date={puzzle.date} rows={puzzle.rows} cols={puzzle.cols} isComplete={run !== null} />
+          </div>
+
+          <ZipGrid puzzle={puzzle} onComplete={handleComplete} onHint={handleHint} hideCompleteOverlay />
+        </div>
+
+        {/* SIDEBAR */}
+        <div className="w-full max-w-[90vw] sm:max-w-[520px] md:max-w-[620px] lg:max-w-none space-y-4 mx-auto lg:mx-0">
+          {run && (
+            <Card className="border-slate-200 bg-white shadow-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-slate-900">
+                  <CheckCircle2 className={`h-5 w-5 ${run.valid ? "text-emerald-500" : "text-slate-300"}`} />
+                  {run.valid ? "Puzzle Complete!" : "Checking solution..."}
+                </CardTitle>
+                <CardDescription>Time: {formatTime(posted?.timeMs ?? run.timeMs)}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {posted ? (
+                  <p className="text-sm font-medium text-emerald-600">
+                    {isArchive ? "Your time is on the archive board." : "Your time is on the board."}{" "}
+                    <Link href="/stats" className="underline hover:text-emerald-700">
+                      See your stats
+                    </Link>
+                  </p>
+                ) : (
+                  run.valid && (
+                    <form onSubmit={postTime} className="flex gap-2">
+                      <Input value={playerName} onChange={(e) => setPlayerName(e.target.value)} placeholder="Your name" maxLength={24} />
+                      <Button type="submit" disabled={!playerName.trim() || isPosting}>
+                        Post time
+                      </Button>
+                    </form>
+                  )
+                )}
+                {run.error && <p className="text-sm font-medium text-rose-600">{run.error}</p>}
+              </CardContent>
+            </Card>
+          )}
+
+          <LeaderboardCard title={isArchive ? "Same-day Top 10" : "Today's Top 10"} entries={leaderboard} emptyText={isArchive ? "Nobody solved this one on the day." : undefined} />
+          {isArchive && <LeaderboardCard title="Archive Top 10" entries={archiveBoard} />}
+
+          <Button variant="outline" className="w-full text-slate-600 hover:text-slate-800 border-slate-200" onClick={() => router.push("/")}>
+            Back to Home
+          </Button>
+        </div>
+      </div>
+
+      <HowToPlay />
+    </main>
+  );
+}
@@ -5,26 +5,28 @@ import { useState, useEffect, useMemo } from "react";
 interface GameHeaderProps {
   difficulty: "easy" | "medium" | "hard";
   date: string;
-  gridSize: number;
+  rows: number;
+  cols: number;
   isComplete: boolean;
   startTime?: number;
 }
 
-export default function GameHeader({ difficulty, date, gridSize, isComplete, startTime }: GameHeaderProps) {
+export default function GameHeader({ difficulty, date, rows, cols, isComplete, startTime }: GameHeaderProps) {
   // Use a local start time if none provided (legacy behavior)
   const [internalStart] = useState(() => Date.now());
   const effectiveStart = startTime || internalStart;
 
   // Calculate initial elapsed time
   const [elapsed, setElapsed] = useState(() => {
-    return Math.floor((Date.now() - effectiveStart) / 1000);
+    return Math.max(0, Math.floor((Date.now() - effectiveStart) / 1000));
   });
 
   useEffect(() => {
     if (isComplete) return;
 
     const interval = setInterval(() => {
-      setElapsed(Math.floor((Date.now() - effectiveStart) / 1000));
+      // Holds at 0:00 until a start time in the future (e.g. a room countdown) arrives
+      setElapsed(Math.max(0, Math.floor((Date.now() - effectiveStart) / 1000)));
     }, 1000);
 
     return () => clearInterval(interval);
@@ -70,7 +72,7 @@ export default function GameHeader({ difficulty, date, gridSize, isComplete, sta
           {difficulty}
         </span>
         <span className="inline-flex items-center rounded-xl border border-slate-200 bg-slate-100 px-3 py-2 text-xs text-slate-600">
-          {gridSize}x{gridSize}
+          {cols}x{rows}
         </span>
       </div>
     </header>
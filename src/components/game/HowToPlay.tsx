@@ -53,7 +53,7 @@ export default function HowToPlay() {
                 </span>
                 <p>
                   You can only move <strong className="text-slate-900">horizontally or vertically</strong> - no diagonal
-                  moves allowed.
+                  moves allowed, and the path cannot cross a <strong className="text-slate-900">wall</strong>.
                 </p>
               </div>
               <div className="flex items-start gap-3">
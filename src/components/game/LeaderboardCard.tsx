@@ -0,0 +1,58 @@
+"use client";
+
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Lightbulb, PlayCircle, Trophy } from "lucide-react";
+
+export interface ClientLeaderboardEntry {
+  name: string;
+  timeMs: number;
+  replayId?: string;
+  hintsUsed?: number; // Hinted runs rank below unaided ones
+}
+
+interface LeaderboardCardProps {
+  title: string;
+  entries: ClientLeaderboardEntry[];
+  emptyText?: string;
+}
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export default function LeaderboardCard({ title, entries, emptyText = "No times yet. Be the first!" }: LeaderboardCardProps) {
+  return (
+    <Card className="border-slate-200 bg-white shadow-sm">
+      <CardHeader className="pb-3 border-b border-slate-200">
+        <CardTitle className="flex items-center gap-2 text-sm font-bold uppercase tracking-wider text-slate-500">
+          <Trophy className="h-4 w-4 text-sky-600" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 pt-4">
+        {entries.length === 0 && <p className="text-sm text-slate-400">{emptyText}</p>}
+        {entries.map((entry, i) => (
+          <div key={`${entry.name}-${i}`} className="flex items-center justify-between text-sm">
+            <div className="flex items-center gap-3">
+              <span className={`w-5 text-center font-bold ${i === 0 ? "text-yellow-500" : "text-slate-300"}`}>{i + 1}</span>
+              <span className="font-medium text-slate-700">{entry.name}</span>
+              {!!entry.hintsUsed && (
+                <span className="inline-flex items-center gap-0.5 text-xs text-amber-600" title={`Used ${entry.hintsUsed} hint${entry.hintsUsed === 1 ? "" : "s"}`}>
+                  <Lightbulb className="h-3 w-3" />
+                  {entry.hintsUsed}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-xs font-bold text-slate-900">{formatTime(entry.timeMs)}</span>
+              {entry.replayId && (
+                <Link href={`/replay/${entry.replayId}`} className="text-slate-400 hover:text-sky-600" aria-label={`Watch ${entry.name}'s replay`}>
+                  <PlayCircle className="h-4 w-4" />
+                </Link>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
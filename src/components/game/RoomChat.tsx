@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { MAX_CHAT_LENGTH } from "@/lib/room-constants";
+import type { ChatMessage } from "@/lib/room-protocol";
+import { Send } from "lucide-react";
+
+interface RoomChatProps {
+  messages: ChatMessage[];
+  myId: string;
+  onSend: (text: string) => void;
+}
+
+export default function RoomChat({ messages, myId, onSend }: RoomChatProps) {
+  const [draft, setDraft] = useState("");
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-4">
+      <h3 className="font-bold text-xs text-slate-400 uppercase tracking-wider">Chat</h3>
+      <div ref={listRef} className="h-32 space-y-1 overflow-y-auto text-sm">
+        {messages.length === 0 ? (
+          <p className="text-slate-400 italic">No messages yet</p>
+        ) : (
+          messages.map((m, i) => (
+            <p key={`${m.sentAt}-${i}`} className="break-words text-slate-700">
+              <span className={`font-semibold ${m.playerId === myId ? "text-sky-600" : "text-slate-800"}`}>{m.name}:</span> {m.text}
+            </p>
+          ))
+        )}
+      </div>
+      <form onSubmit={submit} className="flex gap-2">
+        <input value={draft} onChange={(e) => setDraft(e.target.value)} maxLength={MAX_CHAT_LENGTH} placeholder="Say something..." className="h-9 flex-1 rounded-md border border-slate-200 px-3 text-sm outline-none focus:border-sky-400" />
+        <Button type="submit" size="icon" className="h-9 w-9" disabled={!draft.trim()} aria-label="Send">
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
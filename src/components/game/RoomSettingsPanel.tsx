@@ -0,0 +1,198 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { ROOM_LIMITS } from "@/lib/room-constants";
+import { cn } from "@/lib/utils";
+import { Minus, Plus } from "lucide-react";
+
+type ClientDifficulty = "easy" | "medium" | "hard";
+export type ClientRoomMode = "race" | "sprint" | "elimination" | "best-of";
+
+// Mirrors RoomSettings in server/room-manager.ts
+export interface ClientRoomSettings {
+  mode: ClientRoomMode;
+  sprintDurationS?: number;
+  levelCount: number;
+  curve: "ramp" | ClientDifficulty;
+  difficulties?: ClientDifficulty[];
+  maxPlayers: number;
+  levelTimeLimitS?: number;
+  dailyAsFirstLevel: boolean;
+}
+
+interface RoomSettingsPanelProps {
+  settings: ClientRoomSettings;
+  playerCount: number;
+  editable: boolean;
+  onChange: (settings: ClientRoomSettings) => void;
+}
+
+export const MODES = [
+  { value: "race", label: "Race", description: "First to finish every level wins" },
+  { value: "sprint", label: "Sprint", description: "Most levels solved before time runs out" },
+  { value: "elimination", label: "Elimination", description: "Last to clear each level is out" },
+  { value: "best-of", label: "Best-of", description: "Points for finishing place on each level" },
+] as const;
+
+const SPRINT_DURATIONS = [
+  { value: 120, label: "2m" },
+  { value: 300, label: "5m" },
+  { value: 600, label: "10m" },
+] as const;
+
+const CURVES = [
+  { value: "ramp", label: "Ramp" },
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+] as const;
+
+const TIME_LIMITS = [
+  { value: undefined, label: "Off" },
+  { value: 60, label: "1m" },
+  { value: 120, label: "2m" },
+  { value: 300, label: "5m" },
+] as const;
+
+const formatLimit = (s: number) => (s % 60 === 0 ? `${s / 60}m` : `${s}s`);
+
+const NEXT_DIFFICULTY: Record<ClientDifficulty, ClientDifficulty> = { easy: "medium", medium: "hard", hard: "easy" };
+
+const difficultyChip: Record<ClientDifficulty, string> = {
+  easy: "bg-sky-100 text-sky-700 border-sky-200",
+  medium: "bg-slate-100 text-slate-700 border-slate-200",
+  hard: "bg-blue-600 text-white border-blue-600",
+};
+
+const optionClass = (active: boolean) => cn("h-8 flex-1 px-2 text-xs font-semibold", active ? "border-sky-500 bg-sky-50 text-sky-700" : "text-slate-500");
+
+function Stepper({ value, min, max, onChange }: { value: number; min: number; max: number; onChange: (value: number) => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <Button size="icon" variant="outline" className="h-8 w-8" disabled={value <= min} onClick={() => onChange(value - 1)} aria-label="Decrease">
+        <Minus className="h-3.5 w-3.5" />
+      </Button>
+      <span className="w-8 text-center font-mono font-bold text-slate-800">{value}</span>
+      <Button size="icon" variant="outline" className="h-8 w-8" disabled={value >= max} onClick={() => onChange(value + 1)} aria-label="Increase">
+        <Plus className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
+
+export default function RoomSettingsPanel({ settings, playerCount, editable, onChange }: RoomSettingsPanelProps) {
+  const update = (patch: Partial<ClientRoomSettings>) => onChange({ ...settings, ...patch });
+
+  // Custom difficulties follow the level count — new levels copy the last one
+  const setLevelCount = (levelCount: number) => {
+    const difficulties = settings.difficulties && Array.from({ length: levelCount }, (_, i) => settings.difficulties![Math.min(i, settings.difficulties!.length - 1)]);
+    update({ levelCount, difficulties });
+  };
+
+  const cycleDifficulty = (index: number) => {
+    if (!settings.difficulties) return;
+    update({ difficulties: settings.difficulties.map((d, i) => (i === index ? NEXT_DIFFICULTY[d] : d)) });
+  };
+
+  const isCustom = settings.difficulties !== undefined;
+  const mode = MODES.find((m) => m.value === settings.mode) ?? MODES[0];
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-200 p-4">
+      <h3 className="font-bold text-xs text-slate-400 uppercase tracking-wider">Settings</h3>
+
+      <div className="space-y-2">
+        <span className="text-sm font-medium text-slate-600">Mode</span>
+        {editable ? (
+          <div className="flex gap-1">
+            {MODES.map((m) => (
+              <Button key={m.value} variant="outline" className={optionClass(mode.value === m.value)} onClick={() => update({ mode: m.value, sprintDurationS: m.value === "sprint" ? (settings.sprintDurationS ?? 300) : undefined })}>
+                {m.label}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm font-semibold text-slate-800">{mode.label}</p>
+        )}
+        <p className="text-xs text-slate-400">{mode.description}</p>
+      </div>
+
+      {mode.value === "sprint" && (
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm font-medium text-slate-600">Sprint length</span>
+          {editable ? (
+            <div className="flex w-48 gap-1">
+              {SPRINT_DURATIONS.map((duration) => (
+                <Button key={duration.label} variant="outline" className={optionClass(settings.sprintDurationS === duration.value)} onClick={() => update({ sprintDurationS: duration.value })}>
+                  {duration.label}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <span className="font-mono font-bold text-slate-800">{settings.sprintDurationS ? formatLimit(settings.sprintDurationS) : "--"}</span>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-600">Levels</span>
+        {editable ? <Stepper value={settings.levelCount} min={ROOM_LIMITS.minLevels} max={ROOM_LIMITS.maxLevels} onChange={setLevelCount} /> : <span className="font-mono font-bold text-slate-800">{settings.levelCount}</span>}
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-sm font-medium text-slate-600">Difficulty</span>
+        {editable && (
+          <div className="flex gap-1">
+            {CURVES.map((curve) => (
+              <Button key={curve.value} variant="outline" className={optionClass(!isCustom && settings.curve === curve.value)} onClick={() => update({ curve: curve.value, difficulties: undefined })}>
+                {curve.label}
+              </Button>
+            ))}
+            <Button variant="outline" className={optionClass(isCustom)} onClick={() => update({ difficulties: Array.from({ length: settings.levelCount }, () => "medium") })}>
+              Custom
+            </Button>
+          </div>
+        )}
+        {isCustom ? (
+          <div className="flex flex-wrap gap-1">
+            {settings.difficulties!.map((difficulty, i) => (
+              <button key={i} disabled={!editable} onClick={() => cycleDifficulty(i)} className={cn("rounded border px-1.5 py-0.5 text-[10px] font-bold uppercase", difficultyChip[difficulty], editable && "hover:opacity-80")} title={editable ? "Click to change" : undefined}>
+                L{i + 1} {difficulty}
+              </button>
+            ))}
+          </div>
+        ) : (
+          !editable && <p className="text-sm font-semibold capitalize text-slate-800">{settings.curve === "ramp" ? "Easy → Hard" : settings.curve}</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-600">Max players</span>
+        {editable ? <Stepper value={settings.maxPlayers} min={Math.max(ROOM_LIMITS.minPlayers, playerCount)} max={ROOM_LIMITS.maxPlayers} onChange={(maxPlayers) => update({ maxPlayers })} /> : <span className="font-mono font-bold text-slate-800">{settings.maxPlayers}</span>}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-medium text-slate-600">Time per level</span>
+        {editable ? (
+          <div className="flex w-48 gap-1">
+            {TIME_LIMITS.map((limit) => (
+              <Button key={limit.label} variant="outline" className={optionClass(settings.levelTimeLimitS === limit.value)} onClick={() => update({ levelTimeLimitS: limit.value })}>
+                {limit.label}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <span className="font-mono font-bold text-slate-800">{settings.levelTimeLimitS ? formatLimit(settings.levelTimeLimitS) : "Off"}</span>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center justify-between">
+          <span className="text-sm font-medium text-slate-600">Today&apos;s daily as level 1</span>
+          <input type="checkbox" className="h-4 w-4 accent-sky-600" checked={settings.dailyAsFirstLevel} disabled={!editable} onChange={(e) => update({ dailyAsFirstLevel: e.target.checked })} />
+        </label>
+        {settings.dailyAsFirstLevel && <p className="text-xs text-slate-400">The daily is public, so anyone can look at level 1 before the race starts.</p>}
+      </div>
+    </div>
+  );
+}
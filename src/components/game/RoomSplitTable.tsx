@@ -0,0 +1,72 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+
+interface SplitPlayer {
+  id: string;
+  name: string;
+  skippedLevels?: number[];
+  levelFinishedAt?: (number | null)[];
+}
+
+interface RoomSplitTableProps {
+  players: SplitPlayer[];
+  levelCount: number;
+  startedAt: number;
+  myId: string;
+}
+
+const formatSplit = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Time spent on a level — from when the previous one was done (or the game started) to when this one was
+function splitMs(player: SplitPlayer, levelIndex: number, startedAt: number): number | null {
+  const finishedAt = player.levelFinishedAt?.[levelIndex];
+  if (finishedAt == null) return null;
+  const openedAt = levelIndex === 0 ? startedAt : player.levelFinishedAt?.[levelIndex - 1];
+  return openedAt == null ? null : finishedAt - openedAt;
+}
+
+export default function RoomSplitTable({ players, levelCount, startedAt, myId }: RoomSplitTableProps) {
+  const levels = Array.from({ length: levelCount }, (_, i) => i);
+  const isSolved = (player: SplitPlayer, levelIndex: number) => splitMs(player, levelIndex, startedAt) !== null && !player.skippedLevels?.includes(levelIndex);
+
+  // Fastest solve per level — timed-out levels do not count
+  const best = levels.map((i) => {
+    const splits = players.filter((p) => isSolved(p, i)).map((p) => splitMs(p, i, startedAt)!);
+    return splits.length > 0 ? Math.min(...splits) : null;
+  });
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-slate-200 text-left text-xs font-bold uppercase tracking-wider text-slate-400">
+            <th className="py-2 pr-4">Level</th>
+            {players.map((p) => (
+              <th key={p.id} className={cn("py-2 px-2 text-right", p.id === myId && "text-sky-600")}>
+                {p.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {levels.map((i) => (
+            <tr key={i} className="border-b border-slate-100">
+              <td className="py-2 pr-4 font-sans font-semibold text-slate-500">L{i + 1}</td>
+              {players.map((p) => {
+                const split = splitMs(p, i, startedAt);
+                const skipped = p.skippedLevels?.includes(i);
+                const isBest = !skipped && split !== null && split === best[i];
+                return (
+                  <td key={p.id} className={cn("py-2 px-2 text-right", isBest ? "rounded bg-sky-50 font-bold text-sky-700" : "text-slate-600")}>
+                    {split === null ? <span className="text-slate-300">--</span> : skipped ? <span className="font-sans text-xs text-slate-400">Timed out</span> : formatSplit(split)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,13 +1,21 @@
 "use client";
 
 import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
-import type { Puzzle, Cell } from "@/engine/types";
+import type { Puzzle, Cell, HintResult, ReplayMove } from "@/engine/types";
 import { cn } from "@/lib/utils";
+import { buildWallSet, hasWallBetween } from "@/engine/grid";
+import { decodeReplay, encodeReplay } from "@/engine/replay";
 
 interface ZipGridProps {
   puzzle: Puzzle;
-  onComplete: (path: Cell[], timeMs: number) => void;
+  onComplete?: (path: Cell[], timeMs: number, replay: string) => void; // `replay` is the encoded move history (engine/replay.ts)
   startTime?: number; // Optional, defaults to mount time if not provided
+  onHint?: (path: Cell[]) => Promise<HintResult | null>; // Shows the Hint button when provided
+  playback?: Cell[]; // Read-only mode: draws this path (e.g. a replay frame) and ignores input
+  hideCompleteOverlay?: boolean; // For pages that show their own result after a solve
+  resume?: { path: Cell[]; replay: string }; // Pick up a partial run (read on mount): draws the path and carries on its replay
+  onPathChange?: (path: Cell[], replay: string) => void; // After every move, e.g. to save a draft
+  locked?: boolean; // Shows the puzzle but ignores input, e.g. before a room race starts
 }
 
 const isAdjacent = (a: Cell, b: Cell): boolean => {
@@ -16,8 +24,18 @@ const isAdjacent = (a: Cell, b: Cell): boolean => {
   return (dr === 1 && dc === 0) || (dr === 0 && dc === 1);
 };
 
-export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }: ZipGridProps) {
-  const [path, setPath] = useState<Cell[]>([]);
+export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime, onHint, playback, hideCompleteOverlay, resume, onPathChange, locked }: ZipGridProps) {
+  // A resumed run keeps its moves; new moves are timed on from its last one
+  const [resumed] = useState(() => {
+    const moves = resume ? decodeReplay(resume.replay) : null;
+    if (!resume || !moves) return { path: [], moves: [], timeOffset: 0 };
+    return { path: resume.path, moves, timeOffset: moves.length > 0 ? moves[moves.length - 1].t : 0 };
+  });
+  const [drawnPath, setPath] = useState<Cell[]>(resumed.path);
+  const isReadOnly = playback !== undefined;
+  const path = playback ?? drawnPath;
+  // Mirrors `drawnPath` so pointer events within one frame build on each other
+  const pathRef = useRef<Cell[]>(resumed.path);
   const [isComplete, setIsComplete] = useState(false);
   // If prop provided, use it. Else use mount time (for daily single player)
   const [internalStartTime] = useState(() => Date.now());
@@ -27,6 +45,22 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
   const gridRef = useRef<HTMLDivElement>(null);
   const isDrawingRef = useRef(false);
   const [isShaking, setIsShaking] = useState(false);
+  // The hint stays highlighted only while the path it was computed for is unchanged
+  const [hint, setHint] = useState<{ result: HintResult; forPath: Cell[] } | null>(null);
+  const [isHintLoading, setIsHintLoading] = useState(false);
+  // Every change to the path, timed from when the grid was shown
+  const movesRef = useRef<ReplayMove[]>(resumed.moves);
+
+  const recordMove = (type: ReplayMove["type"], cell?: Cell) => {
+    const t = resumed.timeOffset + Date.now() - internalStartTime;
+    movesRef.current.push(cell ? { type, t, cell } : { type, t });
+  };
+
+  const commitPath = (next: Cell[]) => {
+    pathRef.current = next;
+    setPath(next);
+    onPathChange?.(next, encodeReplay(movesRef.current));
+  };
 
   // Reset shake
   useEffect(() => {
@@ -36,7 +70,7 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
     }
   }, [isShaking]);
 
-  const { size, anchors } = puzzle;
+  const { rows, cols, anchors } = puzzle;
   // Constants for layout
   const cellSize = 70;
   const gap = 1;
@@ -48,6 +82,13 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
     return map;
   }, [anchors]);
 
+  const blockedSet = useMemo(() => {
+    return new Set((puzzle.blocked ?? []).map((c) => `${c.row},${c.col}`));
+  }, [puzzle.blocked]);
+  const openCellCount = rows * cols - blockedSet.size;
+
+  const wallSet = useMemo(() => buildWallSet(puzzle), [puzzle]);
+
   const pathSet = useMemo(() => {
     return new Set(path.map((c) => `${c.row},${c.col}`));
   }, [path]);
@@ -58,7 +99,7 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
 
   const checkCompletion = useCallback(
     (currentPath: Cell[]) => {
-      if (currentPath.length !== size * size) return false;
+      if (currentPath.length !== openCellCount) return false;
 
       const sortedAnchors = [...anchors].sort((a, b) => a.number - b.number);
       let anchorIdx = 0;
@@ -69,7 +110,7 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
       }
       return anchorIdx === sortedAnchors.length;
     },
-    [anchors, size],
+    [anchors, openCellCount],
   );
 
   // Helper to get intermediate cells for fast drags
@@ -94,89 +135,104 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
     return cells;
   };
 
-  const handleCellInteraction = useCallback(
-    (targetRow: number, targetCol: number) => {
-      if (isComplete) return;
-
-      setPath((prev) => {
-        // 1. Handle clicking/dragging on an EXISTING cell
-        const existingIdx = prev.findIndex((c) => c.row === targetRow && c.col === targetCol);
+  // Work out the path after the pointer touches a cell — returns `prev` when nothing changes
+  const nextPathFor = useCallback(
+    (prev: Cell[], targetRow: number, targetCol: number): Cell[] => {
+      // 1. Handle clicking/dragging on an EXISTING cell
+      const existingIdx = prev.findIndex((c) => c.row === targetRow && c.col === targetCol);
 
-        if (existingIdx !== -1) {
-          // If it's the very last cell (current head), do nothing
-          if (existingIdx === prev.length - 1) return prev;
+      if (existingIdx !== -1) {
+        // If it's the very last cell (current head), do nothing
+        if (existingIdx === prev.length - 1) return prev;
 
-          // STRICT BACKTRACKING: Only allow going back to the immediate previous cell.
-          // This prevents accidental "path resetting" if the user grazes an earlier cell.
-          if (existingIdx === prev.length - 2) {
-            return prev.slice(0, existingIdx + 1);
-          }
-
-          // If touching any other earlier cell, ignore it (don't break the line)
-          return prev;
+        // STRICT BACKTRACKING: Only allow going back to the immediate previous cell.
+        // This prevents accidental "path resetting" if the user grazes an earlier cell.
+        if (existingIdx === prev.length - 2) {
+          return prev.slice(0, existingIdx + 1);
         }
 
-        // 2. Handle adding NEW cells
-        let newPath = [...prev];
+        // If touching any other earlier cell, ignore it (don't break the line)
+        return prev;
+      }
 
-        if (prev.length === 0) {
-          // Must start at anchor #1
-          const anchor1 = anchors.find((a) => a.number === 1);
-          if (anchor1 && anchor1.row === targetRow && anchor1.col === targetCol) {
-            newPath = [{ row: targetRow, col: targetCol }];
-          } else {
-            // Invalid start
-            setIsShaking(true);
-            return prev;
-          }
+      // 2. Handle adding NEW cells
+      let newPath = [...prev];
+
+      if (prev.length === 0) {
+        // Must start at anchor #1
+        const anchor1 = anchors.find((a) => a.number === 1);
+        if (anchor1 && anchor1.row === targetRow && anchor1.col === targetCol) {
+          newPath = [{ row: targetRow, col: targetCol }];
         } else {
-          const lastCell = prev[prev.length - 1];
-          // Check interpolation for fast drags
-          const steps = getInterpolatedCells(lastCell, { row: targetRow, col: targetCol });
-
-          if (steps.length > 0) {
-            // Try to add all steps sequentially
-            for (const step of steps) {
-              // Verify adjacency just in case (interpolation logic guarantees it for straight lines, but good to be safe)
-              const currentLast = newPath[newPath.length - 1];
-              if (isAdjacent(currentLast, step)) {
-                // Verify not already in path (handled by existingIdx check above, but purely for `steps` loop)
-                // Actually, if we cross our own path during interpolation, we should probably stop or cut?
-                // For simplicity: Simple "Snake" logic: You can't cross yourself.
-                // But wait, "backtracking" is handled by existingIdx.
-                // If we interpolate over an existing cell, we should probably stop there or handle it?
-                // Let's keep it simple: Only add if NOT in path.
-                const isInPath = newPath.some((c) => c.row === step.row && c.col === step.col);
-                if (!isInPath) {
-                  newPath.push(step);
-                }
+          // Invalid start
+          setIsShaking(true);
+          return prev;
+        }
+      } else {
+        const lastCell = prev[prev.length - 1];
+        // Check interpolation for fast drags
+        const steps = getInterpolatedCells(lastCell, { row: targetRow, col: targetCol });
+
+        if (steps.length > 0) {
+          // Try to add all steps sequentially
+          for (const step of steps) {
+            // Verify adjacency just in case (interpolation logic guarantees it for straight lines, but good to be safe)
+            const currentLast = newPath[newPath.length - 1];
+            if (isAdjacent(currentLast, step)) {
+              // Verify not already in path (handled by existingIdx check above, but purely for `steps` loop)
+              // Actually, if we cross our own path during interpolation, we should probably stop or cut?
+              // For simplicity: Simple "Snake" logic: You can't cross yourself.
+              // But wait, "backtracking" is handled by existingIdx.
+              // If we interpolate over an existing cell, we should probably stop there or handle it?
+              // Let's keep it simple: Only add if NOT in path.
+              const isInPath = newPath.some((c) => c.row === step.row && c.col === step.col);
+              // Blocked cells and walls stop the drag — the path cannot pass through them
+              if (blockedSet.has(`${step.row},${step.col}`) || hasWallBetween(wallSet, currentLast, step)) break;
+              if (!isInPath) {
+                newPath.push(step);
               }
             }
+          }
+        } else {
+          // Fallback to strict adjacency (for single step or diagonal fail)
+          const target = { row: targetRow, col: targetCol };
+          if (isAdjacent(lastCell, target) && !blockedSet.has(`${targetRow},${targetCol}`) && !hasWallBetween(wallSet, lastCell, target)) {
+            newPath.push({ row: targetRow, col: targetCol });
           } else {
-            // Fallback to strict adjacency (for single step or diagonal fail)
-            if (isAdjacent(lastCell, { row: targetRow, col: targetCol })) {
-              newPath.push({ row: targetRow, col: targetCol });
-            } else {
-              return prev;
-            }
+            return prev;
           }
         }
+      }
 
-        // Check completion immediately
-        if (newPath !== prev && newPath.length > prev.length && checkCompletion(newPath)) {
-          setIsComplete(true);
-          isDrawingRef.current = false;
-          const elapsed = Date.now() - effectiveStartTime;
-          setFinalTime(elapsed);
-          onComplete(newPath, elapsed);
-        }
-
-        return newPath;
-      });
+      return newPath;
     },
-    [anchors, isComplete, checkCompletion, onComplete, effectiveStartTime],
+    [anchors, blockedSet, wallSet],
   );
 
+  const handleCellInteraction = (targetRow: number, targetCol: number) => {
+    if (isComplete || isReadOnly || locked) return;
+
+    const prev = pathRef.current;
+    const newPath = nextPathFor(prev, targetRow, targetCol);
+    if (newPath === prev) return;
+
+    if (newPath.length < prev.length) {
+      recordMove("backtrack");
+    } else {
+      for (const cell of newPath.slice(prev.length)) recordMove("extend", cell);
+    }
+    commitPath(newPath);
+
+    // Check completion immediately
+    if (newPath.length > prev.length && checkCompletion(newPath)) {
+      setIsComplete(true);
+      isDrawingRef.current = false;
+      const elapsed = Date.now() - effectiveStartTime;
+      setFinalTime(elapsed);
+      onComplete?.(newPath, elapsed, encodeReplay(movesRef.current));
+    }
+  };
+
   const [gridRect, setGridRect] = useState<{ width: number; height: number } | null>(null);
 
   useEffect(() => {
@@ -199,11 +255,11 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
   // Derive dynamic metrics
   const dynamicCellSize = useMemo(() => {
     if (!gridRect) return cellSize; // Fallback
-    // Width = 2*padding + size*cell + (size-1)*gap
-    // size*cell = Width - 2*padding - (size-1)*gap
-    const available = gridRect.width - 2 * padding - (size - 1) * gap;
-    return available / size;
-  }, [gridRect, size]);
+    // Width = 2*padding + cols*cell + (cols-1)*gap
+    // cols*cell = Width - 2*padding - (cols-1)*gap
+    const available = gridRect.width - 2 * padding - (cols - 1) * gap;
+    return available / cols;
+  }, [gridRect, cols]);
 
   const getCellFromPoint = (clientX: number, clientY: number): { row: number; col: number } | null => {
     const grid = gridRef.current;
@@ -231,18 +287,18 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
     const yClamped = Math.max(0, Math.min(1, yRel));
 
     // Map to row/col
-    let col = Math.floor(xClamped * size);
-    let row = Math.floor(yClamped * size);
+    let col = Math.floor(xClamped * cols);
+    let row = Math.floor(yClamped * rows);
 
-    // Edge case: if xClamped is exactly 1, floor gives size. Clamp to size-1.
-    if (col >= size) col = size - 1;
-    if (row >= size) row = size - 1;
+    // Edge case: if xClamped is exactly 1, floor gives cols. Clamp to cols-1 (same for rows).
+    if (col >= cols) col = cols - 1;
+    if (row >= rows) row = rows - 1;
 
     return { row, col };
   };
 
   const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
-    if (isComplete) return;
+    if (isComplete || isReadOnly || locked) return;
     e.preventDefault();
     const cell = getCellFromPoint(e.clientX, e.clientY);
 
@@ -277,13 +333,30 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
   };
 
   const handleUndo = () => {
-    if (!isComplete) {
-      setPath((prev) => (prev.length > 0 ? prev.slice(0, -1) : prev));
+    if (!isComplete && pathRef.current.length > 0) {
+      recordMove("undo");
+      commitPath(pathRef.current.slice(0, -1));
     }
   };
 
+  const handleHint = async () => {
+    if (!onHint || isComplete || isHintLoading || locked) return;
+    const forPath = path;
+    setIsHintLoading(true);
+    try {
+      const result = await onHint(forPath);
+      if (result) setHint({ result, forPath });
+    } finally {
+      setIsHintLoading(false);
+    }
+  };
+
+  const activeHint = hint && hint.forPath === path ? hint.result : null;
+  const hintKey = activeHint?.cell ? `${activeHint.cell.row},${activeHint.cell.col}` : null;
+
   const handleReset = () => {
-    setPath([]);
+    recordMove("reset");
+    commitPath([]);
     setIsComplete(false);
     isDrawingRef.current = false;
   };
@@ -303,31 +376,41 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
   //   }
   // }, [path, isComplete, checkCompletion, onComplete, startTime]);
 
-  const totalSize = gridRect ? gridRect.width : size * cellSize + (size - 1) * gap + padding * 2; // Fallback if gridRect not yet available
+  // Fallback if gridRect not yet available
+  const totalWidth = gridRect ? gridRect.width : cols * cellSize + (cols - 1) * gap + padding * 2;
+  const totalHeight = gridRect ? gridRect.height : rows * cellSize + (rows - 1) * gap + padding * 2;
 
   return (
     <div className="flex flex-col items-center gap-5">
-      <div className="flex w-full items-center justify-center gap-4">
-        <button className="rounded-xl border border-slate-300 bg-slate-100 px-4 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-40" onClick={handleUndo} disabled={path.length === 0 || isComplete}>
-          Undo
-        </button>
-        <span className="min-w-[60px] text-center text-sm font-semibold text-slate-500">
-          {path.length} / {size * size}
-        </span>
-        <button className="rounded-xl border border-slate-300 bg-slate-100 px-4 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-40" onClick={handleReset} disabled={isComplete}>
-          Reset
-        </button>
-      </div>
+      {!isReadOnly && (
+        <div className="flex w-full items-center justify-center gap-4">
+          <button className="rounded-xl border border-slate-300 bg-slate-100 px-4 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-40" onClick={handleUndo} disabled={path.length === 0 || isComplete}>
+            Undo
+          </button>
+          <span className="min-w-[60px] text-center text-sm font-semibold text-slate-500">
+            {path.length} / {openCellCount}
+          </span>
+          <button className="rounded-xl border border-slate-300 bg-slate-100 px-4 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-40" onClick={handleReset} disabled={isComplete || locked}>
+            Reset
+          </button>
+          {onHint && (
+            <button className="rounded-xl border border-amber-300 bg-amber-50 px-4 py-2 text-sm font-medium text-amber-700 transition hover:bg-amber-100 disabled:cursor-not-allowed disabled:opacity-40" onClick={handleHint} disabled={isComplete || isHintLoading || locked}>
+              Hint{hint ? ` (${hint.result.hintsUsed})` : ""}
+            </button>
+          )}
+        </div>
+      )}
 
       <div
         ref={gridRef}
         className={cn(
-          "relative grid aspect-square w-full max-w-[98vw] sm:max-w-[650px] md:max-w-[800px] lg:max-w-[1000px] xl:max-w-[1200px] select-none touch-none rounded-3xl border border-slate-300 bg-slate-300 shadow-sm transition-all overflow-hidden",
+          "relative grid w-full max-w-[98vw] sm:max-w-[650px] md:max-w-[800px] lg:max-w-[1000px] xl:max-w-[1200px] select-none touch-none rounded-3xl border border-slate-300 bg-slate-300 shadow-sm transition-all overflow-hidden",
           isComplete && "shadow-md",
           isShaking && "animate-shake border-red-400",
         )}
         style={{
-          gridTemplateColumns: `repeat(${size}, 1fr)`,
+          gridTemplateColumns: `repeat(${cols}, 1fr)`,
+          aspectRatio: `${cols} / ${rows}`,
           gap: `${gap}px`,
           padding: `${padding}px`,
           touchAction: "none",
@@ -338,7 +421,7 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
         onPointerLeave={handlePointerUp}
         onPointerCancel={handlePointerUp}
       >
-        <svg className="pointer-events-none absolute left-0 top-0 z-10 h-full w-full" width="100%" height="100%" viewBox={`0 0 ${totalSize} ${totalSize}`} preserveAspectRatio="none">
+        <svg className="pointer-events-none absolute left-0 top-0 z-10 h-full w-full" width="100%" height="100%" viewBox={`0 0 ${totalWidth} ${totalHeight}`} preserveAspectRatio="none">
           {path.length > 0 && (
             <path
               d={path
@@ -355,13 +438,26 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
               className="stroke-sky-600 transition-all duration-75 ease-linear"
             />
           )}
+          {(puzzle.walls ?? []).map((wall) => {
+            // Walls sit on the shared edge, centred in the gap between the two cells
+            const step = dynamicCellSize + gap;
+            const x1 = padding + (wall.side === "right" ? (wall.col + 1) * step - gap / 2 : wall.col * step);
+            const y1 = padding + (wall.side === "bottom" ? (wall.row + 1) * step - gap / 2 : wall.row * step);
+            const x2 = wall.side === "right" ? x1 : x1 + dynamicCellSize;
+            const y2 = wall.side === "bottom" ? y1 : y1 + dynamicCellSize;
+            return <line key={`${wall.row},${wall.col},${wall.side}`} x1={x1} y1={y1} x2={x2} y2={y2} strokeWidth={Math.max(4, dynamicCellSize * 0.1)} strokeLinecap="round" className="stroke-slate-800" />;
+          })}
         </svg>
 
-        {Array.from({ length: size }, (_, row) =>
-          Array.from({ length: size }, (_, col) => {
+        {Array.from({ length: rows }, (_, row) =>
+          Array.from({ length: cols }, (_, col) => {
             const key = `${row},${col}`;
+            if (blockedSet.has(key)) {
+              return <div key={key} data-row={row} data-col={col} className="aspect-square w-full bg-slate-700" aria-hidden />;
+            }
             const anchorNumber = anchorMap.get(key);
             const isInPath = pathSet.has(key);
+            const isHinted = key === hintKey;
             const pathIdx = getPathIndex(row, col);
             // const pathIdx = getPathIndex(row, col);
             // const isHead = pathIdx === path.length - 1 && path.length > 0;
@@ -377,8 +473,9 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
                   "relative flex aspect-square w-full items-center justify-center transition-colors duration-200",
                   // Backgrounds
                   isInPath ? "bg-sky-100" : "bg-white",
-                  !isComplete && !isInPath && "hover:bg-slate-50",
+                  !isComplete && !isReadOnly && !isInPath && "hover:bg-slate-50",
                   isComplete && "bg-emerald-50",
+                  isHinted && (activeHint?.type === "undo" ? "ring-4 ring-inset ring-rose-400" : "ring-4 ring-inset ring-amber-400 animate-pulse"),
                 )}
               >
                 {anchorNumber !== undefined && (
@@ -392,7 +489,7 @@ export default function ZipGrid({ puzzle, onComplete, startTime: propStartTime }
         )}
       </div>
 
-      {isComplete && (
+      {isComplete && !hideCompleteOverlay && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-50/90 backdrop-blur-sm">
           <div className="rounded-3xl border border-slate-200 bg-white px-12 py-10 text-center shadow-xl">
             <span className="block text-4xl font-bold text-slate-900">WIN</span>
@@ -0,0 +1,54 @@
+/**
+ * Difficulty tests — score bands, technique charges on hand-built boards, and
+ * generated puzzles landing in the band they were asked for.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DIFFICULTY_BANDS, difficultyForScore, rateDifficulty } from "./difficulty";
+import { generatePuzzleWithSolution } from "./generator";
+import type { Cell } from "./types";
+
+const row = (cols: number[]): Cell[] => cols.map((col) => ({ row: 0, col }));
+
+test("scores map to bands at the boundaries", () => {
+  assert.equal(difficultyForScore(10), "easy");
+  assert.equal(difficultyForScore(DIFFICULTY_BANDS.easy - 1), "easy");
+  assert.equal(difficultyForScore(DIFFICULTY_BANDS.easy), "medium");
+  assert.equal(difficultyForScore(DIFFICULTY_BANDS.medium - 1), "medium");
+  assert.equal(difficultyForScore(DIFFICULTY_BANDS.medium), "hard");
+});
+
+test("a corridor is all forced moves", () => {
+  const rating = rateDifficulty({ rows: 1, cols: 4, anchors: [{ row: 0, col: 0, number: 1 }] }, row([0, 1, 2, 3]));
+  assert.equal(rating.score, 10);
+  assert.equal(rating.steps, 3);
+  assert.equal(rating.techniques.forced, 3);
+  assert.equal(rating.difficulty, "easy");
+});
+
+test("a choice logic cannot settle is charged as a guess", () => {
+  const solution = [
+    { row: 0, col: 0 },
+    { row: 0, col: 1 },
+    { row: 1, col: 1 },
+    { row: 1, col: 0 },
+  ];
+  const rating = rateDifficulty({ rows: 2, cols: 2, anchors: [{ row: 0, col: 0, number: 1 }] }, solution);
+  assert.equal(rating.techniques.guess, 1);
+  assert.ok(rating.score > 10);
+});
+
+test("generated puzzles are labelled by their measured score", () => {
+  for (const seed of ["2026-10-19", "2026-10-20", "difficulty-test"]) {
+    const scores = (["easy", "medium", "hard"] as const).map((difficulty) => {
+      const { puzzle, solution } = generatePuzzleWithSolution(seed, difficulty, { rows: 6, cols: 6 });
+      const rating = rateDifficulty(puzzle, solution.path);
+      assert.equal(puzzle.difficultyScore, rating.score);
+      assert.equal(puzzle.difficulty, difficulty, `${seed} asked for ${difficulty}, scored ${rating.score}`);
+      assert.equal(puzzle.difficulty, difficultyForScore(rating.score));
+      return rating.score;
+    });
+    assert.ok(scores[0] < scores[1] && scores[1] < scores[2], `${seed}: ${scores.join(" < ")}`);
+  }
+});
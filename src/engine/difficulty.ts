@@ -0,0 +1,233 @@
+/**
+ * Difficulty rater — solves a puzzle the way a person would and measures the effort.
+ *
+ * The logic solver grows the path from anchor #1 and only commits to a move
+ * once every other option has been ruled out by a human-style deduction.
+ * Each step is charged for the most advanced technique it needed; a puzzle's
+ * score is the average charge per step, so grids of different sizes compare fairly.
+ */
+
+import type { Cell, Puzzle, PuzzleShape } from "./types";
+import { buildBlockedMask, buildNeighbours } from "./grid";
+
+export type Technique =
+  | "forced" // Only one free neighbour
+  | "anchor-order" // Other options are later anchors
+  | "dead-end" // Other options strand a cell
+  | "region-split" // Other options cut the board in two or wall off the next anchor
+  | "parity" // Other options leave an unbalanced checkerboard
+  | "lookahead" // Other options collapse after a few forced moves
+  | "guess"; // Logic alone cannot decide
+
+/** Cost charged for a step, by the technique that decided it */
+const TECHNIQUE_COST: Record<Technique, number> = {
+  forced: 1,
+  "anchor-order": 1,
+  "dead-end": 2,
+  "region-split": 3,
+  parity: 3,
+  lookahead: 6,
+  guess: 12,
+};
+
+const LOOKAHEAD_DEPTH = 12;
+
+export interface DifficultyRating {
+  score: number; // Average step cost × 10, rounded (10 = every move forced)
+  steps: number;
+  techniques: Record<Technique, number>; // Steps decided by each technique
+  difficulty: Puzzle["difficulty"];
+}
+
+/** Score bands: [easy, medium) and [medium, hard) upper bounds */
+export const DIFFICULTY_BANDS = { easy: 35, medium: 47 } as const;
+
+export function difficultyForScore(score: number): Puzzle["difficulty"] {
+  if (score < DIFFICULTY_BANDS.easy) return "easy";
+  if (score < DIFFICULTY_BANDS.medium) return "medium";
+  return "hard";
+}
+
+/**
+ * Rate a puzzle by replaying its solution through the logic solver.
+ * The solution is only consulted when logic runs out (a "guess" step).
+ */
+export function rateDifficulty(puzzle: PuzzleShape, solution: Cell[]): DifficultyRating {
+  const { rows, cols } = puzzle;
+  const cellCount = rows * cols;
+  const neighbours = buildNeighbours(puzzle);
+  const sortedAnchors = [...puzzle.anchors].sort((a, b) => a.number - b.number);
+
+  const anchorOrder = new Int16Array(cellCount);
+  sortedAnchors.forEach((a, i) => {
+    anchorOrder[a.row * cols + a.col] = i + 1;
+  });
+  const anchorCells = sortedAnchors.map((a) => a.row * cols + a.col);
+
+  // Blocked cells start out visited, so no deduction ever considers them
+  const visited = buildBlockedMask(puzzle);
+  const total = visited.reduce((open, blocked) => open - blocked, cellCount);
+  const seen = new Uint8Array(cellCount);
+  const stack: number[] = [];
+
+  // --- Deductions. Each checks the state right after a move onto `head`. ---
+
+  const strandsACell = (head: number): boolean => {
+    let endpoints = 0;
+    for (let cell = 0; cell < cellCount; cell++) {
+      if (visited[cell]) continue;
+      let degree = 0;
+      for (const nb of neighbours[cell]) {
+        if (!visited[nb] || nb === head) degree++;
+      }
+      if (degree === 0) return true;
+      if (degree === 1) {
+        const order = anchorOrder[cell];
+        if (order !== 0 && order < sortedAnchors.length) return true;
+        if (++endpoints > 1) return true;
+      }
+    }
+    return false;
+  };
+
+  const splitsRegion = (head: number, nextAnchor: number, remaining: number): boolean => {
+    // The next anchor must be reachable without crossing a later anchor...
+    seen.fill(0);
+    stack.length = 0;
+    stack.push(head);
+    seen[head] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      for (const nb of neighbours[cell]) {
+        if (visited[nb] || seen[nb]) continue;
+        seen[nb] = 1;
+        if (anchorOrder[nb] > nextAnchor) continue;
+        stack.push(nb);
+      }
+    }
+    if (nextAnchor <= sortedAnchors.length && !seen[anchorCells[nextAnchor - 1]]) return true;
+
+    // ...and every unvisited cell must still be connected to the head
+    seen.fill(0);
+    stack.push(head);
+    seen[head] = 1;
+    let reached = 0;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      for (const nb of neighbours[cell]) {
+        if (visited[nb] || seen[nb]) continue;
+        seen[nb] = 1;
+        reached++;
+        stack.push(nb);
+      }
+    }
+    return reached !== remaining;
+  };
+
+  const breaksParity = (head: number, remaining: number): boolean => {
+    // Colours alternate along the path, so the cells after the head split
+    // ceil/floor between the opposite colour and the head's own colour.
+    const headColour = (Math.floor(head / cols) + (head % cols)) % 2;
+    let opposite = 0;
+    for (let cell = 0; cell < cellCount; cell++) {
+      if (!visited[cell] && (Math.floor(cell / cols) + (cell % cols)) % 2 !== headColour) opposite++;
+    }
+    return opposite !== Math.ceil(remaining / 2);
+  };
+
+  /** Moves still open from `head`, filtered by techniques up to and including `level` */
+  const LEVELS: Technique[] = ["forced", "anchor-order", "dead-end", "region-split", "parity"];
+  const candidatesAt = (head: number, nextAnchor: number, count: number, level: number): number[] => {
+    const result: number[] = [];
+    for (const nb of neighbours[head]) {
+      if (visited[nb]) continue;
+      const order = anchorOrder[nb];
+      if (level >= 1 && order !== 0 && order !== nextAnchor) continue;
+
+      if (level >= 2) {
+        const next = order !== 0 ? nextAnchor + 1 : nextAnchor;
+        const remaining = total - count - 1;
+        visited[nb] = 1;
+        const ruledOut =
+          remaining > 0 &&
+          (strandsACell(nb) || (level >= 3 && splitsRegion(nb, next, remaining)) || (level >= 4 && breaksParity(nb, remaining)));
+        visited[nb] = 0;
+        if (ruledOut) continue;
+      }
+      result.push(nb);
+    }
+    return result;
+  };
+
+  /** Follow forced moves from a trial state; true if it runs into a contradiction */
+  const collapses = (head: number, nextAnchor: number, count: number): boolean => {
+    const trail: number[] = [];
+    let contradiction = false;
+    for (let depth = 0; depth < LOOKAHEAD_DEPTH && count < total; depth++) {
+      const options = candidatesAt(head, nextAnchor, count, LEVELS.length - 1);
+      if (options.length === 0) {
+        contradiction = true;
+        break;
+      }
+      if (options.length > 1) break;
+      head = options[0];
+      if (anchorOrder[head] !== 0) nextAnchor++;
+      visited[head] = 1;
+      trail.push(head);
+      count++;
+    }
+    for (const cell of trail) visited[cell] = 0;
+    return contradiction;
+  };
+
+  const techniques: Record<Technique, number> = {
+    forced: 0,
+    "anchor-order": 0,
+    "dead-end": 0,
+    "region-split": 0,
+    parity: 0,
+    lookahead: 0,
+    guess: 0,
+  };
+
+  let head = anchorCells[0];
+  let nextAnchor = 2;
+  let count = 1;
+  let cost = 0;
+  visited[head] = 1;
+
+  while (count < total && count < solution.length) {
+    let used: Technique = "guess";
+    for (let level = 0; level < LEVELS.length; level++) {
+      if (candidatesAt(head, nextAnchor, count, level).length <= 1) {
+        used = LEVELS[level];
+        break;
+      }
+    }
+
+    if (used === "guess") {
+      const options = candidatesAt(head, nextAnchor, count, LEVELS.length - 1);
+      const surviving = options.filter((cell) => {
+        visited[cell] = 1;
+        const dead = collapses(cell, anchorOrder[cell] !== 0 ? nextAnchor + 1 : nextAnchor, count + 1);
+        visited[cell] = 0;
+        return !dead;
+      });
+      if (surviving.length <= 1) used = "lookahead";
+    }
+
+    techniques[used]++;
+    cost += TECHNIQUE_COST[used];
+
+    // Every deduction is sound, so the intended solution is always the surviving move
+    const step = solution[count];
+    head = step.row * cols + step.col;
+    if (anchorOrder[head] !== 0) nextAnchor++;
+    visited[head] = 1;
+    count++;
+  }
+
+  const steps = count - 1;
+  const score = steps > 0 ? Math.round((cost / steps) * 10) : 10;
+  return { score, steps, techniques, difficulty: difficultyForScore(score) };
+}
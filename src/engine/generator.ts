@@ -1,13 +1,51 @@
 /**
- * Puzzle generator — creates a Hamiltonian path through an N×N grid,
+ * Puzzle generator — creates a Hamiltonian path through a rectangular grid
+ * (square by default, optionally with blocked cells),
  * then places numbered anchors along the path.
  *
  * Uses a randomized depth-first search with Warnsdorff's heuristic
  * to efficiently find a path visiting every cell exactly once.
+ * Anchors and walls are then refined with the solver until the path is the only solution,
+ * and candidates are rated by the logic solver until one fits the target difficulty.
+ *
+ * This file is generator v2. Changes that alter its output need a new version
+ * in versions.ts (keep the old code under legacy/) and a golden-file update.
  */
 
-import type { Anchor, Cell, Puzzle } from "./types";
+import type { Anchor, Cell, GeneratedPuzzle, GridLayout, Puzzle, Wall } from "./types";
 import { createRng, getDifficultyForDate, hashDate } from "./seeder";
+import { buildWallSet, countOpenCells, hasWallBetween, isOpenCell, wallBetween } from "./grid";
+import { findSolutions, hasUniqueSolution } from "./solver";
+import { DIFFICULTY_BANDS, rateDifficulty, type DifficultyRating } from "./difficulty";
+import { CURRENT_GENERATOR_VERSION, formatPuzzleId, generatorVersionForSeed } from "./versions";
+import { generatePuzzleV1 } from "./legacy/generator-v1";
+
+// Number of anchors scales with grid size
+// User requested up to 15 numbers.
+const ANCHOR_COUNTS: Record<number, number> = {
+  5: 5,
+  6: 9,
+  7: 12,
+  8: 15,
+};
+
+// Fewer anchors leave more to deduce — scales the anchor target per difficulty
+const ANCHOR_DENSITY: Record<Puzzle["difficulty"], number> = {
+  easy: 1.3,
+  medium: 1,
+  hard: 1,
+};
+
+// Walls the generator may add, per open cell, and how often it prefers a wall over an anchor
+const WALLS_PER_CELL = 1 / 12;
+const WALL_CHANCE = 0.5;
+
+// Candidates rated before settling for the closest one
+const MAX_CANDIDATES = 6;
+
+// Generation runs the solver many times, and the API regenerates the same seeds on every request
+const CACHE_LIMIT = 64;
+const generatedCache = new Map<string, GeneratedPuzzle>();
 
 type Direction = [number, number];
 const DIRS: Direction[] = [
@@ -17,36 +55,48 @@ const DIRS: Direction[] = [
   [-1, 0], // up
 ];
 
-function isValid(row: number, col: number, size: number, visited: boolean[][]): boolean {
-  return row >= 0 && row < size && col >= 0 && col < size && !visited[row][col];
+function isValid(row: number, col: number, rows: number, cols: number, visited: boolean[][]): boolean {
+  return row >= 0 && row < rows && col >= 0 && col < cols && !visited[row][col];
 }
 
 /** Count unvisited neighbours — used for Warnsdorff's heuristic */
-function countNeighbours(row: number, col: number, size: number, visited: boolean[][]): number {
+function countNeighbours(row: number, col: number, rows: number, cols: number, visited: boolean[][], walls: Set<string>): number {
   let count = 0;
   for (const [dr, dc] of DIRS) {
-    if (isValid(row + dr, col + dc, size, visited)) count++;
+    if (isValid(row + dr, col + dc, rows, cols, visited) && !hasWallBetween(walls, { row, col }, { row: row + dr, col: col + dc })) count++;
   }
   return count;
 }
 
 /**
  * Find a Hamiltonian path using DFS + Warnsdorff's heuristic.
+ * Blocked cells are treated as already visited, and walls are never crossed.
  * Returns the path as an array of cells, or null if no path found.
  */
-function findHamiltonianPath(size: number, rng: () => number, maxAttempts = 20): Cell[] | null {
-  const totalCells = size * size;
+function findHamiltonianPath(layout: GridLayout, rng: () => number, maxAttempts = 20): Cell[] | null {
+  const { rows, cols } = layout;
+  const openCells: Cell[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (isOpenCell(layout, { row, col })) openCells.push({ row, col });
+    }
+  }
+  const totalCells = openCells.length;
+  if (totalCells === 0) return null;
+  const walls = buildWallSet(layout);
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     // Random starting position
-    const startRow = Math.floor(rng() * size);
-    const startCol = Math.floor(rng() * size);
+    const start = openCells[Math.floor(rng() * totalCells)];
 
-    const visited: boolean[][] = Array.from({ length: size }, () => Array(size).fill(false));
-    const path: Cell[] = [{ row: startRow, col: startCol }];
-    visited[startRow][startCol] = true;
+    const visited: boolean[][] = Array.from({ length: rows }, () => Array(cols).fill(false));
+    for (const { row, col } of layout.blocked ?? []) {
+      if (row >= 0 && row < rows && col >= 0 && col < cols) visited[row][col] = true;
+    }
+    const path: Cell[] = [{ row: start.row, col: start.col }];
+    visited[start.row][start.col] = true;
 
-    let current = { row: startRow, col: startCol };
+    let current = { row: start.row, col: start.col };
 
     while (path.length < totalCells) {
       // Get valid neighbours sorted by Warnsdorff's heuristic (fewest onward moves first)
@@ -55,11 +105,11 @@ function findHamiltonianPath(size: number, rng: () => number, maxAttempts = 20):
       for (const [dr, dc] of DIRS) {
         const nr = current.row + dr;
         const nc = current.col + dc;
-        if (isValid(nr, nc, size, visited)) {
+        if (isValid(nr, nc, rows, cols, visited) && !hasWallBetween(walls, current, { row: nr, col: nc })) {
           neighbours.push({
             row: nr,
             col: nc,
-            score: countNeighbours(nr, nc, size, visited),
+            score: countNeighbours(nr, nc, rows, cols, visited, walls),
           });
         }
       }
@@ -87,33 +137,176 @@ function findHamiltonianPath(size: number, rng: () => number, maxAttempts = 20):
 /**
  * Select anchor positions along the path.
  * Anchors are evenly distributed, always including the first and last cell.
+ * Returns indices into the path, in ascending order.
  */
-function selectAnchors(path: Cell[], numAnchors: number): Anchor[] {
-  const anchors: Anchor[] = [];
-  const totalCells = path.length;
-
-  if (numAnchors <= 2) {
-    anchors.push({ ...path[0], number: 1 });
-    anchors.push({ ...path[totalCells - 1], number: 2 });
-    return anchors;
-  }
+function selectAnchorIndices(pathLength: number, numAnchors: number): number[] {
+  if (numAnchors <= 2) return [0, pathLength - 1];
 
   // Evenly distribute anchors along the path
-  const step = (totalCells - 1) / (numAnchors - 1);
+  const indices = new Set<number>();
+  const step = (pathLength - 1) / (numAnchors - 1);
   for (let i = 0; i < numAnchors; i++) {
-    const idx = Math.round(i * step);
-    anchors.push({ ...path[idx], number: i + 1 });
+    indices.add(Math.round(i * step));
   }
+  return [...indices].sort((a, b) => a - b);
+}
+
+/** Turn sorted path indices into numbered anchors */
+function toAnchors(path: Cell[], indices: number[]): Anchor[] {
+  return indices.map((idx, i) => ({ ...path[idx], number: i + 1 }));
+}
 
-  return anchors;
+/** Index of the path cell in the middle of the widest gap between two anchors */
+function widestGapMidpoint(indices: number[]): number {
+  let best = -1;
+  let bestGap = 1;
+  for (let i = 1; i < indices.length; i++) {
+    const gap = indices[i] - indices[i - 1];
+    if (gap > bestGap) {
+      bestGap = gap;
+      best = indices[i - 1] + Math.floor(gap / 2);
+    }
+  }
+  return best;
 }
 
 /**
- * Generate a puzzle for a given seed string (date or random ID).
+ * Place anchors and walls so the intended path is the only solution.
+ *
+ * Starts from an even spread, then repeatedly asks the solver for a second
+ * solution and either walls off the step where it first leaves the intended
+ * path or pins the cell it skipped. The wall always sits on an edge the
+ * intended path never uses, so the solution survives.
+ * Once unique, anchors added beyond the target count are removed again
+ * wherever the puzzle stays unique without them.
+ */
+function placeUniqueConstraints(path: Cell[], layout: GridLayout, numAnchors: number, maxWalls: number, rng: () => number): { anchors: Anchor[]; walls: Wall[]; verifiedUnique: boolean } {
+  const indices = selectAnchorIndices(path.length, numAnchors);
+  const walls: Wall[] = [...(layout.walls ?? [])];
+  let addedWalls = 0;
+  let verifiedUnique = false;
+
+  // Every iteration adds a wall or an anchor; walls are capped, so this terminates
+  for (let guard = 0; guard < path.length + maxWalls; guard++) {
+    const { solutions, complete } = findSolutions({ ...layout, walls, anchors: toAnchors(path, indices) });
+    if (complete && solutions.length === 1) {
+      verifiedUnique = true;
+      break;
+    }
+
+    let pin = -1;
+    const alternative = solutions.find((candidate) => candidate.some((cell, i) => cell.row !== path[i].row || cell.col !== path[i].col));
+    if (alternative) {
+      const diverge = alternative.findIndex((cell, i) => cell.row !== path[i].row || cell.col !== path[i].col);
+
+      // The alternative's step out of path[diverge - 1] is not an edge of the intended path
+      if (addedWalls < maxWalls && rng() < WALL_CHANCE) {
+        walls.push(wallBetween(path[diverge - 1], alternative[diverge]));
+        addedWalls++;
+        continue;
+      }
+
+      for (let i = diverge; i < path.length; i++) {
+        if (!indices.includes(i)) {
+          pin = i;
+          break;
+        }
+      }
+    }
+    // Search ran out of budget (or no usable divergence): tighten the loosest stretch
+    if (pin === -1) pin = widestGapMidpoint(indices);
+    if (pin === -1) break;
+
+    indices.push(pin);
+    indices.sort((a, b) => a - b);
+  }
+
+  if (verifiedUnique && indices.length > numAnchors) {
+    // Interior anchors only — the first and last cell stay pinned
+    const candidates = indices.slice(1, -1);
+    for (let i = candidates.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+    }
+
+    for (const candidate of candidates) {
+      if (indices.length <= numAnchors) break;
+      const trial = indices.filter((idx) => idx !== candidate);
+      if (hasUniqueSolution({ ...layout, walls, anchors: toAnchors(path, trial) })) {
+        indices.splice(indices.indexOf(candidate), 1);
+      }
+    }
+  }
+
+  return { anchors: toAnchors(path, indices), walls, verifiedUnique };
+}
+
+/** A Hamiltonian path for the grid, falling back to a snake if the search fails */
+function buildSolutionPath(layout: GridLayout, rng: () => number): Cell[] {
+  let path = findHamiltonianPath(layout, rng);
+
+  // Fallback: if Hamiltonian path fails, try again with more attempts
+  if (!path) {
+    path = findHamiltonianPath(layout, rng, 50);
+  }
+
+  // Ultimate fallback: generate a simple snake path (only possible on a full rectangle)
+  if (!path && !layout.blocked?.length && !layout.walls?.length) {
+    path = [];
+    for (let r = 0; r < layout.rows; r++) {
+      for (let c = 0; c < layout.cols; c++) {
+        path.push({ row: r, col: r % 2 === 0 ? c : layout.cols - 1 - c });
+      }
+    }
+  }
+
+  if (!path) {
+    throw new Error(`No path covers every open cell of this ${layout.rows}×${layout.cols} layout`);
+  }
+  return path;
+}
+
+/** How far a score falls outside a difficulty band (0 = inside) */
+function bandDistance(score: number, difficulty: Puzzle["difficulty"]): number {
+  const low = difficulty === "easy" ? -Infinity : difficulty === "medium" ? DIFFICULTY_BANDS.easy : DIFFICULTY_BANDS.medium;
+  const high = difficulty === "easy" ? DIFFICULTY_BANDS.easy : difficulty === "medium" ? DIFFICULTY_BANDS.medium : Infinity;
+  if (score < low) return low - score;
+  if (score >= high) return score - high + 1;
+  return 0;
+}
+
+/**
+ * Generate a puzzle together with its intended solution.
+ * The solution never leaves the server — send only `puzzle` to clients.
  * @param seedStr - The seed string (e.g. "2024-01-01" or "room-123-level-1")
  * @param difficultyOverride - Optional forced difficulty
+ * @param layout - Optional board shape (rows, cols, blocked cells, fixed walls); defaults to a square sized by difficulty
+ * @param version - Generator version; defaults to the one scheduled for the seed (see versions.ts)
  */
-export function generatePuzzle(seedStr: string, difficultyOverride?: "easy" | "medium" | "hard"): Puzzle {
+export function generatePuzzleWithSolution(seedStr: string, difficultyOverride?: "easy" | "medium" | "hard", layout?: GridLayout, version = generatorVersionForSeed(seedStr)): GeneratedPuzzle {
+  const key = `${version}|${seedStr}|${difficultyOverride ?? ""}|${layout ? JSON.stringify(layout) : ""}`;
+  const cached = generatedCache.get(key);
+  if (cached) return cached;
+
+  let generated: GeneratedPuzzle;
+  if (version === 1) {
+    if (layout) throw new Error("Generator v1 only builds square grids");
+    generated = generatePuzzleV1(seedStr, difficultyOverride);
+  } else if (version === CURRENT_GENERATOR_VERSION) {
+    generated = buildPuzzle(seedStr, difficultyOverride, layout);
+  } else {
+    throw new Error(`Unknown generator version ${version}`);
+  }
+
+  generatedCache.set(key, generated);
+  if (generatedCache.size > CACHE_LIMIT) {
+    // Maps iterate in insertion order, so the first key is the oldest
+    generatedCache.delete(generatedCache.keys().next().value!);
+  }
+  return generated;
+}
+
+function buildPuzzle(seedStr: string, difficultyOverride?: "easy" | "medium" | "hard", layout?: GridLayout): GeneratedPuzzle {
   const seed = hashDate(seedStr); // hashDate handles any string
   const rng = createRng(seed);
 
@@ -147,61 +340,63 @@ export function generatePuzzle(seedStr: string, difficultyOverride?: "easy" | "m
     }
   }
 
-  // Number of anchors scales with grid size
-  // User requested up to 15 numbers.
-  const anchorCounts: Record<number, number> = {
-    5: 5,
-    6: 9,
-    7: 12,
-    8: 15,
-  };
-
-  let path = findHamiltonianPath(size, rng);
+  const board: GridLayout = layout ?? { rows: size, cols: size };
+  const openCells = countOpenCells(board);
+  const isFullSquare = board.rows === board.cols && !board.blocked?.length;
+  // Irregular boards get roughly the same anchor density as the square ones
+  const numAnchors = (isFullSquare ? ANCHOR_COUNTS[board.rows] : undefined) ?? Math.max(4, Math.round(openCells * 0.24));
 
-  // Fallback: if Hamiltonian path fails, try smaller grid
-  if (!path) {
-    path = findHamiltonianPath(size, rng, 50);
-  }
+  // Rate candidates with the logic solver until one lands in the target band;
+  // if none does, keep the one whose score came closest.
+  let best: { path: Cell[]; anchors: Anchor[]; walls: Wall[]; verifiedUnique: boolean; rating: DifficultyRating; distance: number } | null = null;
+  for (let attempt = 0; attempt < MAX_CANDIDATES; attempt++) {
+    const path = buildSolutionPath(board, rng);
+    const anchorTarget = Math.max(2, Math.round(numAnchors * ANCHOR_DENSITY[difficulty]));
+    const maxWalls = Math.round(openCells * WALLS_PER_CELL);
+    const { anchors, walls, verifiedUnique } = placeUniqueConstraints(path, board, anchorTarget, maxWalls, rng);
+    const rating = rateDifficulty({ ...board, walls, anchors }, path);
+    const distance = bandDistance(rating.score, difficulty);
 
-  // Ultimate fallback: generate a simple snake path
-  if (!path) {
-    path = [];
-    for (let r = 0; r < size; r++) {
-      for (let c = 0; c < size; c++) {
-        path.push({ row: r, col: r % 2 === 0 ? c : size - 1 - c });
-      }
+    if (verifiedUnique && (!best || !best.verifiedUnique || distance < best.distance)) {
+      best = { path, anchors, walls, verifiedUnique, rating, distance };
+    } else if (!best) {
+      best = { path, anchors, walls, verifiedUnique, rating, distance };
     }
+    if (verifiedUnique && distance === 0) break;
   }
-
-  const numAnchors = anchorCounts[size] ?? Math.ceil(size * 1.2);
-  const anchors = selectAnchors(path, numAnchors);
+  const { path, anchors, walls, verifiedUnique, rating } = best!;
 
   return {
-    id: `zip-${seedStr}`,
-    size,
-    anchors,
-    date: seedStr, // Keep for display
-    difficulty,
+    puzzle: {
+      id: formatPuzzleId(CURRENT_GENERATOR_VERSION, seedStr),
+      rows: board.rows,
+      cols: board.cols,
+      ...(board.blocked?.length ? { blocked: board.blocked.map(({ row, col }) => ({ row, col })) } : {}),
+      ...(walls.length ? { walls } : {}),
+      anchors,
+      date: seedStr, // Keep for display
+      difficulty: rating.difficulty,
+      difficultyScore: rating.score,
+      verifiedUnique,
+    },
+    solution: { path },
   };
 }
 
+/**
+ * Generate a puzzle for a given seed string (date or random ID).
+ * @param seedStr - The seed string (e.g. "2024-01-01" or "room-123-level-1")
+ * @param difficultyOverride - Optional forced difficulty
+ * @param layout - Optional board shape (rows, cols, blocked cells, fixed walls)
+ */
+export function generatePuzzle(seedStr: string, difficultyOverride?: "easy" | "medium" | "hard", layout?: GridLayout): Puzzle {
+  return generatePuzzleWithSolution(seedStr, difficultyOverride, layout).puzzle;
+}
+
 /**
  * Get the full solution path for a puzzle.
+ * Regenerates from the seed, so the same arguments as `generatePuzzle` must be used.
  */
-export function generateSolutionPath(_dateStr: string): Cell[] {
-  // Check if dateStr is actually a complex key? No, just rely on standard gen
-  // For validation we regenerate the puzzle using same seed, so this helper might be redundant
-  // but kept for compatibility.
-  // Actually let's just use generatePuzzle inside validator, this was just a helper.
-  // We can just reuse generatePuzzle logic.
-  // const puzzle = generatePuzzle(dateStr);
-  // Re-finding path is hard unless we stored it.
-  // Wait, generatePuzzle calculates path but throws it away!
-  // To validate, we just need anchors and grid size,
-  // and we validate the USER'S path against rules.
-  // We don't need the "intended" path to validate a solution, just that it meets rules.
-  // So this function isn't strictly needed for validation logic in validator.ts.
-  // But if we wanted a hint system...
-  // For now, let's keep it simple.
-  return [];
+export function generateSolutionPath(seedStr: string, difficultyOverride?: "easy" | "medium" | "hard", layout?: GridLayout): Cell[] {
+  return generatePuzzleWithSolution(seedStr, difficultyOverride, layout).solution.path;
 }
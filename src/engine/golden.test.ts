@@ -0,0 +1,60 @@
+/**
+ * Golden-file regression suite — a year of dailies must rebuild byte for byte.
+ *
+ * Each date's puzzle and solution are hashed and compared with
+ * golden/dailies.json. A failure means a generator change moved published
+ * puzzles: add a new version in versions.ts instead of editing the old one.
+ * After an intentional change to unreleased dates, refresh with
+ * `UPDATE_GOLDEN=1 npm test`.
+ *
+ * v1 picks size and difficulty from the server's local day of the week, as it
+ * always has, so the suite runs in UTC — the timezone the golden file records.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import { generatePuzzleWithSolution } from "./generator";
+import { generatorVersionForSeed, parsePuzzleId } from "./versions";
+
+process.env.TZ = "UTC";
+
+const GOLDEN_FILE = new URL("./golden/dailies.json", import.meta.url);
+const FIRST_DATE = "2026-04-19"; // Spans the v1 → v2 cutover
+const DAYS = 365;
+
+function goldenDates(): string[] {
+  const start = new Date(`${FIRST_DATE}T00:00:00Z`).getTime();
+  return Array.from({ length: DAYS }, (_, i) => new Date(start + i * 86_400_000).toISOString().split("T")[0]);
+}
+
+function fingerprint(date: string): string {
+  const { puzzle, solution } = generatePuzzleWithSolution(date);
+  return createHash("sha256").update(JSON.stringify({ puzzle, solution })).digest("hex").slice(0, 16);
+}
+
+test("daily puzzles match the golden file", () => {
+  const actual: Record<string, string> = {};
+  for (const date of goldenDates()) actual[date] = fingerprint(date);
+
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(GOLDEN_FILE, JSON.stringify(actual, null, 2) + "\n");
+    return;
+  }
+
+  const expected = JSON.parse(readFileSync(GOLDEN_FILE, "utf8")) as Record<string, string>;
+  const drifted = Object.keys(actual).filter((date) => expected[date] !== actual[date]);
+  assert.deepEqual(drifted, [], `Generated dailies drifted on ${drifted.length} date(s)`);
+});
+
+test("puzzle ids carry the scheduled generator version", () => {
+  for (const date of ["2026-10-18", "2026-10-19"]) {
+    const { puzzle } = generatePuzzleWithSolution(date);
+    assert.deepEqual(parsePuzzleId(puzzle.id), { version: generatorVersionForSeed(date), seed: date });
+  }
+  assert.equal(generatePuzzleWithSolution("2026-10-18").puzzle.id, "zip-2026-10-18"); // v1 ids predate versioning
+  assert.equal(generatePuzzleWithSolution("2026-10-19").puzzle.id, "zip-v2-2026-10-19");
+  assert.equal(generatorVersionForSeed("2026-10-18"), 1);
+  assert.equal(generatorVersionForSeed("2026-10-19"), 2);
+});
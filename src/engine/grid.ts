@@ -0,0 +1,70 @@
+/**
+ * Grid helpers — index math for rectangular boards with blocked cells and walls.
+ * Cells are addressed by index `row * cols + col` in the hot loops.
+ */
+
+import type { Cell, GridLayout, Wall } from "./types";
+
+/** Mask of blocked cells (1 = blocked), ignoring entries outside the board */
+export function buildBlockedMask(layout: GridLayout): Uint8Array {
+  const { rows, cols } = layout;
+  const mask = new Uint8Array(rows * cols);
+  for (const { row, col } of layout.blocked ?? []) {
+    if (row >= 0 && row < rows && col >= 0 && col < cols) mask[row * cols + col] = 1;
+  }
+  return mask;
+}
+
+/** Number of cells the path has to cover */
+export function countOpenCells(layout: GridLayout): number {
+  return buildBlockedMask(layout).reduce((open, blocked) => open - blocked, layout.rows * layout.cols);
+}
+
+/** True if the cell is on the board and not blocked */
+export function isOpenCell(layout: GridLayout, cell: Cell): boolean {
+  const { rows, cols } = layout;
+  if (cell.row < 0 || cell.row >= rows || cell.col < 0 || cell.col >= cols) return false;
+  return !(layout.blocked ?? []).some((b) => b.row === cell.row && b.col === cell.col);
+}
+
+/** The wall that would separate two adjacent cells, in canonical (right/bottom) form */
+export function wallBetween(a: Cell, b: Cell): Wall {
+  const [first, second] = a.row < b.row || (a.row === b.row && a.col < b.col) ? [a, b] : [b, a];
+  return { row: first.row, col: first.col, side: second.row > first.row ? "bottom" : "right" };
+}
+
+/** Stable string key for a wall */
+export function wallKey(wall: Wall): string {
+  return `${wall.row},${wall.col},${wall.side}`;
+}
+
+/** Set of wall keys for quick lookups */
+export function buildWallSet(layout: GridLayout): Set<string> {
+  return new Set((layout.walls ?? []).map(wallKey));
+}
+
+/** True if a wall separates two adjacent cells */
+export function hasWallBetween(walls: Set<string>, a: Cell, b: Cell): boolean {
+  return walls.size > 0 && walls.has(wallKey(wallBetween(a, b)));
+}
+
+/** Precompute orthogonal neighbours for every cell index; blocked cells have none, and walls cut edges */
+export function buildNeighbours(layout: GridLayout): number[][] {
+  const { rows, cols } = layout;
+  const blocked = buildBlockedMask(layout);
+  const walls = buildWallSet(layout);
+  const neighbours: number[][] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const list: number[] = [];
+      if (!blocked[row * cols + col]) {
+        if (row > 0) list.push((row - 1) * cols + col);
+        if (row < rows - 1) list.push((row + 1) * cols + col);
+        if (col > 0) list.push(row * cols + col - 1);
+        if (col < cols - 1) list.push(row * cols + col + 1);
+      }
+      neighbours.push(list.filter((idx) => !blocked[idx] && !hasWallBetween(walls, { row, col }, { row: Math.floor(idx / cols), col: idx % cols })));
+    }
+  }
+  return neighbours;
+}
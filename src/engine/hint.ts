@@ -0,0 +1,24 @@
+/**
+ * Hint engine — compares a partial path with the intended solution.
+ */
+
+import type { Cell, HintResult } from "./types";
+
+/**
+ * Work out the next hint for a partial path.
+ * Returns the first cell that strays from the solution (to undo), otherwise
+ * the next cell of the solution.
+ */
+export function getHint(path: Cell[], solution: Cell[]): Omit<HintResult, "hintsUsed"> {
+  for (let i = 0; i < path.length; i++) {
+    const expected = solution[i];
+    if (!expected || expected.row !== path[i].row || expected.col !== path[i].col) {
+      return { type: "undo", cell: { row: path[i].row, col: path[i].col } };
+    }
+  }
+
+  if (path.length >= solution.length) return { type: "complete" };
+
+  const next = solution[path.length];
+  return { type: "next", cell: { row: next.row, col: next.col } };
+}
@@ -0,0 +1,206 @@
+/**
+ * Generator v1 — frozen copy of the original generator.
+ *
+ * Dailies published before v2 were built by this code, so it must never change:
+ * any edit here silently rewrites past puzzles and orphans their leaderboards.
+ * The golden-file suite (golden.test.ts) guards it.
+ */
+
+import type { Anchor, Cell, GeneratedPuzzle } from "../types";
+import { createRng, hashDate } from "../seeder";
+import { rateDifficultyV1 } from "./difficulty-v1";
+import { formatPuzzleId } from "../versions";
+
+type Direction = [number, number];
+const DIRS: Direction[] = [
+  [0, 1], // right
+  [1, 0], // down
+  [0, -1], // left
+  [-1, 0], // up
+];
+
+function isValid(row: number, col: number, size: number, visited: boolean[][]): boolean {
+  return row >= 0 && row < size && col >= 0 && col < size && !visited[row][col];
+}
+
+/** Count unvisited neighbours — used for Warnsdorff's heuristic */
+function countNeighbours(row: number, col: number, size: number, visited: boolean[][]): number {
+  let count = 0;
+  for (const [dr, dc] of DIRS) {
+    if (isValid(row + dr, col + dc, size, visited)) count++;
+  }
+  return count;
+}
+
+/**
+ * Find a Hamiltonian path using DFS + Warnsdorff's heuristic.
+ * Returns the path as an array of cells, or null if no path found.
+ */
+function findHamiltonianPath(size: number, rng: () => number, maxAttempts = 20): Cell[] | null {
+  const totalCells = size * size;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    // Random starting position
+    const startRow = Math.floor(rng() * size);
+    const startCol = Math.floor(rng() * size);
+
+    const visited: boolean[][] = Array.from({ length: size }, () => Array(size).fill(false));
+    const path: Cell[] = [{ row: startRow, col: startCol }];
+    visited[startRow][startCol] = true;
+
+    let current = { row: startRow, col: startCol };
+
+    while (path.length < totalCells) {
+      // Get valid neighbours sorted by Warnsdorff's heuristic (fewest onward moves first)
+      const neighbours: { row: number; col: number; score: number }[] = [];
+
+      for (const [dr, dc] of DIRS) {
+        const nr = current.row + dr;
+        const nc = current.col + dc;
+        if (isValid(nr, nc, size, visited)) {
+          neighbours.push({
+            row: nr,
+            col: nc,
+            score: countNeighbours(nr, nc, size, visited),
+          });
+        }
+      }
+
+      if (neighbours.length === 0) break; // Dead end
+
+      // Sort by Warnsdorff's heuristic, break ties randomly
+      neighbours.sort((a, b) => {
+        const diff = a.score - b.score;
+        return diff !== 0 ? diff : rng() - 0.5;
+      });
+
+      const next = neighbours[0];
+      visited[next.row][next.col] = true;
+      path.push({ row: next.row, col: next.col });
+      current = next;
+    }
+
+    if (path.length === totalCells) return path;
+  }
+
+  return null;
+}
+
+/**
+ * Select anchor positions along the path.
+ * Anchors are evenly distributed, always including the first and last cell.
+ */
+function selectAnchors(path: Cell[], numAnchors: number): Anchor[] {
+  const anchors: Anchor[] = [];
+  const totalCells = path.length;
+
+  if (numAnchors <= 2) {
+    anchors.push({ ...path[0], number: 1 });
+    anchors.push({ ...path[totalCells - 1], number: 2 });
+    return anchors;
+  }
+
+  // Evenly distribute anchors along the path
+  const step = (totalCells - 1) / (numAnchors - 1);
+  for (let i = 0; i < numAnchors; i++) {
+    const idx = Math.round(i * step);
+    anchors.push({ ...path[idx], number: i + 1 });
+  }
+
+  return anchors;
+}
+
+/** Day-of-week mapping as it stood in v1 (0=Sun..6=Sat) */
+function getDifficultyForDateV1(dateStr: string): {
+  difficulty: "easy" | "medium" | "hard";
+  size: number;
+} {
+  // The server's local day, exactly as v1 shipped — switching to UTC would move archived dailies built off-UTC
+  const day = new Date(dateStr).getDay();
+  if (day >= 1 && day <= 3) return { difficulty: "easy", size: 5 };
+  if (day >= 4 && day <= 5) return { difficulty: "medium", size: 6 };
+  return { difficulty: "hard", size: 7 }; // Sat & Sun
+}
+
+/**
+ * Generate a v1 puzzle for a given seed string (date or random ID).
+ * v1 never checked uniqueness and labelled difficulty by grid size; the
+ * score comes from the frozen v1 rater (difficulty-v1.ts) for display only.
+ */
+export function generatePuzzleV1(seedStr: string, difficultyOverride?: "easy" | "medium" | "hard"): GeneratedPuzzle {
+  const seed = hashDate(seedStr); // hashDate handles any string
+  const rng = createRng(seed);
+
+  let difficulty: "easy" | "medium" | "hard";
+  let size: number;
+
+  if (difficultyOverride) {
+    difficulty = difficultyOverride;
+    // easy=5, medium=6, hard=8 (was 7)
+    size = difficulty === "easy" ? 5 : difficulty === "medium" ? 6 : 8;
+  } else {
+    // Default: treat seedStr as date if possible, else random
+    // If it looks like a date, use date logic. Else use hash to pick.
+    if (/^\d{4}-\d{2}-\d{2}$/.test(seedStr)) {
+      const { difficulty: d, size: s } = getDifficultyForDateV1(seedStr);
+      difficulty = d;
+      size = s;
+    } else {
+      // Random difficulty based on seed if no override
+      const rand = rng();
+      if (rand < 0.3) {
+        difficulty = "easy";
+        size = 5;
+      } else if (rand < 0.7) {
+        difficulty = "medium";
+        size = 6;
+      } else {
+        difficulty = "hard";
+        size = 8;
+      }
+    }
+  }
+
+  // Number of anchors scales with grid size
+  // User requested up to 15 numbers.
+  const anchorCounts: Record<number, number> = {
+    5: 5,
+    6: 9,
+    7: 12,
+    8: 15,
+  };
+
+  let path = findHamiltonianPath(size, rng);
+
+  // Fallback: if Hamiltonian path fails, try smaller grid
+  if (!path) {
+    path = findHamiltonianPath(size, rng, 50);
+  }
+
+  // Ultimate fallback: generate a simple snake path
+  if (!path) {
+    path = [];
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        path.push({ row: r, col: r % 2 === 0 ? c : size - 1 - c });
+      }
+    }
+  }
+
+  const numAnchors = anchorCounts[size] ?? Math.ceil(size * 1.2);
+  const anchors = selectAnchors(path, numAnchors);
+
+  return {
+    puzzle: {
+      id: formatPuzzleId(1, seedStr),
+      rows: size,
+      cols: size,
+      anchors,
+      date: seedStr, // Keep for display
+      difficulty,
+      difficultyScore: rateDifficultyV1(size, anchors, path),
+      verifiedUnique: false,
+    },
+    solution: { path },
+  };
+}
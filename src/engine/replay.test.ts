@@ -0,0 +1,85 @@
+/**
+ * Replay tests — the encoding round trip, and playing moves back under the
+ * grid's rules.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeReplay, encodeReplay, MAX_REPLAY_MOVES, replayMoves } from "./replay";
+import type { Cell, Puzzle, ReplayMove } from "./types";
+
+// 2×2 whose only solution runs clockwise from the top left
+const puzzle: Puzzle = {
+  id: "replay-test",
+  rows: 2,
+  cols: 2,
+  anchors: [
+    { row: 0, col: 0, number: 1 },
+    { row: 0, col: 1, number: 2 },
+    { row: 1, col: 0, number: 3 },
+  ],
+  date: "2026-10-19",
+  difficulty: "easy",
+  difficultyScore: 10,
+  verifiedUnique: true,
+};
+const solution: Cell[] = [
+  { row: 0, col: 0 },
+  { row: 0, col: 1 },
+  { row: 1, col: 1 },
+  { row: 1, col: 0 },
+];
+
+/** Extend through `path`, one move every `stepMs` */
+const drawn = (path: Cell[], stepMs: number): ReplayMove[] => path.map((cell, i) => ({ type: "extend", t: (i + 1) * stepMs, cell }));
+
+test("encode and decode round-trip", () => {
+  const moves: ReplayMove[] = [
+    { type: "extend", t: 100, cell: { row: 0, col: 0 } },
+    { type: "extend", t: 250, cell: { row: 1, col: 0 } },
+    { type: "backtrack", t: 300 },
+    { type: "undo", t: 700 },
+    { type: "reset", t: 1650 },
+  ];
+  const encoded = encodeReplay(moves);
+  assert.equal(encoded, "1|e100,0,0;e150,1,0;b50;u400;r950");
+  assert.deepEqual(decodeReplay(encoded), moves);
+  assert.deepEqual(decodeReplay("1|"), []);
+});
+
+test("malformed replays do not decode", () => {
+  for (const encoded of ["", "e100,0,0", "2|e100,0,0", "1|x100", "1|e100,0", "1|b100,0,0", "1|e-5,0,0", "1|e1.5,0,0", "1|eabc,0,0"]) {
+    assert.equal(decodeReplay(encoded), null, encoded);
+  }
+  const tooLong = "1|" + "b0;".repeat(MAX_REPLAY_MOVES) + "b0";
+  assert.equal(decodeReplay(tooLong), null);
+});
+
+test("moves play back to the final path", () => {
+  const moves: ReplayMove[] = [...drawn(solution.slice(0, 3), 200), { type: "backtrack", t: 800 }, { type: "extend", t: 900, cell: { row: 1, col: 1 } }, { type: "extend", t: 1000, cell: { row: 1, col: 0 } }];
+  assert.deepEqual(replayMoves(moves, puzzle), { valid: true, path: solution, durationMs: 1000 });
+
+  const reset = replayMoves([...drawn(solution, 200), { type: "reset", t: 1200 }], puzzle);
+  assert.deepEqual(reset.path, []);
+});
+
+test("moves that break the drawing rules are rejected", () => {
+  const cases: [string, ReplayMove[]][] = [
+    ["start off anchor 1", [{ type: "extend", t: 0, cell: { row: 1, col: 1 } }]],
+    ["non-adjacent step", drawn([solution[0], solution[2]], 200)],
+    ["revisit", [...drawn(solution.slice(0, 2), 200), { type: "extend", t: 600, cell: { row: 0, col: 0 } }]],
+    ["out of bounds", [...drawn(solution.slice(0, 2), 200), { type: "extend", t: 600, cell: { row: 0, col: 2 } }]],
+    ["backtrack on an empty path", [{ type: "backtrack", t: 0 }]],
+    [
+      "time going backwards",
+      [
+        { type: "extend", t: 500, cell: solution[0] },
+        { type: "extend", t: 400, cell: solution[1] },
+      ],
+    ],
+  ];
+  for (const [name, moves] of cases) assert.equal(replayMoves(moves, puzzle).valid, false, name);
+
+  const walled = { ...puzzle, walls: [{ row: 0, col: 0, side: "right" as const }] };
+  assert.equal(replayMoves(drawn(solution.slice(0, 2), 200), walled).valid, false);
+});
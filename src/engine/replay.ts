@@ -0,0 +1,118 @@
+/**
+ * Replays — the move-by-move history of a solve.
+ *
+ * Encoded as `1|` followed by `;`-separated moves: an op letter, the ms since
+ * the previous move, and for extends the cell (`e120,3,4;b80;u400;r950`).
+ * The server replays the moves through the same rules as ZipGrid to recover
+ * the final path and how long the solve took.
+ */
+
+import type { Cell, PuzzleShape, ReplayMove, ValidationResult } from "./types";
+import { buildWallSet, hasWallBetween, isOpenCell } from "./grid";
+
+const FORMAT_PREFIX = "1|";
+export const MAX_REPLAY_MOVES = 20_000;
+
+const OP_CODES: Record<ReplayMove["type"], string> = {
+  extend: "e",
+  backtrack: "b",
+  undo: "u",
+  reset: "r",
+};
+const OP_TYPES = Object.fromEntries(Object.entries(OP_CODES).map(([type, code]) => [code, type])) as Record<string, ReplayMove["type"]>;
+
+export function encodeReplay(moves: ReplayMove[]): string {
+  let last = 0;
+  const parts = moves.map((move) => {
+    const dt = Math.max(0, Math.round(move.t - last));
+    last += dt;
+    const code = OP_CODES[move.type] + dt;
+    return move.cell ? `${code},${move.cell.row},${move.cell.col}` : code;
+  });
+  return FORMAT_PREFIX + parts.join(";");
+}
+
+/** Decode a replay string — returns null if it is malformed */
+export function decodeReplay(encoded: string): ReplayMove[] | null {
+  if (!encoded.startsWith(FORMAT_PREFIX)) return null;
+  const body = encoded.slice(FORMAT_PREFIX.length);
+  if (body === "") return [];
+
+  const parts = body.split(";");
+  if (parts.length > MAX_REPLAY_MOVES) return null;
+
+  const moves: ReplayMove[] = [];
+  let t = 0;
+  for (const part of parts) {
+    const type = OP_TYPES[part[0]];
+    const fields = part.slice(1).split(",").map(Number);
+    if (!type || !fields.every(Number.isInteger) || fields[0] < 0) return null;
+    t += fields[0];
+
+    if (type === "extend") {
+      if (fields.length !== 3) return null;
+      moves.push({ type, t, cell: { row: fields[1], col: fields[2] } });
+    } else {
+      if (fields.length !== 1) return null;
+      moves.push({ type, t });
+    }
+  }
+  return moves;
+}
+
+export interface ReplayResult extends ValidationResult {
+  path: Cell[]; // Path after the last move
+  durationMs: number; // Timestamp of the last move
+}
+
+/**
+ * Play moves back under the grid's drawing rules: the path starts on anchor #1,
+ * every extend steps to an adjacent, open, unvisited cell without crossing a
+ * wall, and backtrack/undo only remove the head. Does not check the final path
+ * is a solution — run `validatePath` on the result for that.
+ */
+export function replayMoves(moves: ReplayMove[], puzzle: PuzzleShape): ReplayResult {
+  const walls = buildWallSet(puzzle);
+  const first = puzzle.anchors.find((a) => a.number === 1);
+  const path: Cell[] = [];
+  const visited = new Set<string>();
+  let t = 0;
+
+  const fail = (index: number, error: string): ReplayResult => ({ valid: false, error: `Move ${index + 1}: ${error}`, path, durationMs: t });
+
+  for (let i = 0; i < moves.length; i++) {
+    const move = moves[i];
+    if (move.t < t) return fail(i, "timestamps go backwards.");
+    t = move.t;
+
+    if (move.type === "reset") {
+      path.length = 0;
+      visited.clear();
+      continue;
+    }
+    if (move.type === "backtrack" || move.type === "undo") {
+      if (path.length === 0) return fail(i, "nothing to remove.");
+      const removed = path.pop()!;
+      visited.delete(`${removed.row},${removed.col}`);
+      continue;
+    }
+
+    const cell = move.cell;
+    if (!cell) return fail(i, "extend without a cell.");
+    const key = `${cell.row},${cell.col}`;
+    if (!isOpenCell(puzzle, cell)) return fail(i, `cell (${cell.row}, ${cell.col}) is out of bounds or blocked.`);
+    if (visited.has(key)) return fail(i, `cell (${cell.row}, ${cell.col}) is already on the path.`);
+
+    const head = path[path.length - 1];
+    if (!head) {
+      if (!first || first.row !== cell.row || first.col !== cell.col) return fail(i, "path must start on anchor 1.");
+    } else {
+      if (Math.abs(head.row - cell.row) + Math.abs(head.col - cell.col) !== 1) return fail(i, `cell (${cell.row}, ${cell.col}) is not adjacent to the head.`);
+      if (hasWallBetween(walls, head, cell)) return fail(i, `move to (${cell.row}, ${cell.col}) crosses a wall.`);
+    }
+    path.push(cell);
+    visited.add(key);
+  }
+
+  return { valid: true, path, durationMs: t };
+}
@@ -29,12 +29,32 @@ export function getTodayStr(): string {
   return new Date().toISOString().split("T")[0];
 }
 
-/** Map day-of-week (0=Sun..6=Sat) to difficulty and grid size */
+/** True for a YYYY-MM-DD date after today — those dailies are not released yet */
+export function isFutureDate(dateStr: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(dateStr) && dateStr > getTodayStr();
+}
+
+// The archive starts here — there are no dailies before it
+export const FIRST_DAILY_DATE = "2025-01-01";
+
+/** True for a real calendar date written as YYYY-MM-DD (so not "2026-02-30") */
+export function isDateStr(dateStr: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return false;
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(dateStr);
+}
+
+/** True for a released daily — a real date from FIRST_DAILY_DATE up to today */
+export function isArchiveDate(dateStr: string): boolean {
+  return isDateStr(dateStr) && dateStr >= FIRST_DAILY_DATE && dateStr <= getTodayStr();
+}
+
+/** Map day-of-week (0=Sun..6=Sat) to a target difficulty and grid size (the generator rates candidates against it) */
 export function getDifficultyForDate(dateStr: string): {
   difficulty: "easy" | "medium" | "hard";
   size: number;
 } {
-  const day = new Date(dateStr).getDay();
+  const day = new Date(dateStr).getUTCDay(); // Dates parse as UTC midnight — keep it server-timezone independent
   if (day >= 1 && day <= 3) return { difficulty: "easy", size: 5 };
   if (day >= 4 && day <= 5) return { difficulty: "medium", size: 6 };
   return { difficulty: "hard", size: 7 }; // Sat & Sun
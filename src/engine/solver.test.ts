@@ -0,0 +1,62 @@
+/**
+ * Solver tests — solution counting on hand-built boards, and the uniqueness
+ * guarantee on generated puzzles.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generatePuzzleWithSolution } from "./generator";
+import { countSolutions, findSolutions, hasUniqueSolution } from "./solver";
+import type { PuzzleShape } from "./types";
+
+// 2×2 with only a start anchor: clockwise or anticlockwise
+const twoWays: PuzzleShape = { rows: 2, cols: 2, anchors: [{ row: 0, col: 0, number: 1 }] };
+
+test("counts every path up to the limit", () => {
+  assert.equal(countSolutions(twoWays), 2);
+  assert.equal(countSolutions(twoWays, 1), 1);
+  assert.equal(hasUniqueSolution(twoWays), false);
+});
+
+test("anchor order rules out paths", () => {
+  const puzzle: PuzzleShape = {
+    ...twoWays,
+    anchors: [
+      { row: 0, col: 0, number: 1 },
+      { row: 0, col: 1, number: 2 },
+      { row: 1, col: 0, number: 3 },
+    ],
+  };
+  assert.deepEqual(findSolutions(puzzle).solutions, [
+    [
+      { row: 0, col: 0 },
+      { row: 0, col: 1 },
+      { row: 1, col: 1 },
+      { row: 1, col: 0 },
+    ],
+  ]);
+  assert.equal(hasUniqueSolution(puzzle), true);
+});
+
+test("walls and blocked cells shape the search", () => {
+  assert.equal(countSolutions({ ...twoWays, walls: [{ row: 0, col: 0, side: "right" }] }), 1);
+  assert.equal(countSolutions({ ...twoWays, blocked: [{ row: 1, col: 1 }] }), 0);
+  assert.equal(countSolutions({ ...twoWays, blocked: [{ row: 0, col: 1 }] }), 1);
+});
+
+test("an unfinished search is not reported as unique", () => {
+  const open: PuzzleShape = { rows: 6, cols: 6, anchors: [{ row: 0, col: 0, number: 1 }] };
+  assert.equal(findSolutions(open, { maxNodes: 10 }).complete, false);
+  assert.equal(countSolutions(open, 2, 10), 2);
+  assert.equal(hasUniqueSolution(open, 10), false);
+});
+
+test("generated puzzles have exactly the generator's solution", () => {
+  for (const seed of ["2026-10-19", "2026-10-20", "solver-test"]) {
+    for (const difficulty of ["easy", "hard"] as const) {
+      const { puzzle, solution } = generatePuzzleWithSolution(seed, difficulty);
+      assert.equal(puzzle.verifiedUnique, true, `${seed} ${difficulty}`);
+      assert.deepEqual(findSolutions(puzzle, { maxNodes: 1_000_000 }).solutions, [solution.path], `${seed} ${difficulty}`);
+    }
+  }
+});
@@ -0,0 +1,172 @@
+/**
+ * Exact solver — enumerates every path that satisfies a puzzle's rules.
+ *
+ * A solution starts on anchor #1, visits every open cell exactly once and passes
+ * through the anchors in ascending order. The search stops as soon as
+ * `limit` solutions are found, so asking for 2 is a cheap uniqueness check.
+ */
+
+import type { Anchor, Cell, PuzzleShape } from "./types";
+import { buildBlockedMask, buildNeighbours } from "./grid";
+
+export interface SolveResult {
+  solutions: Cell[][]; // At most `limit` solutions, in search order
+  complete: boolean; // false if the node budget ran out before the search finished
+}
+
+export interface SolveOptions {
+  limit?: number; // Stop after this many solutions (default 2)
+  maxNodes?: number; // Search budget — protects the generator from pathological layouts
+}
+
+const DEFAULT_MAX_NODES = 20_000;
+
+/**
+ * Find up to `limit` solutions for a puzzle.
+ */
+export function findSolutions(puzzle: PuzzleShape, options: SolveOptions = {}): SolveResult {
+  const { rows, cols } = puzzle;
+  const limit = options.limit ?? 2;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const cellCount = rows * cols;
+
+  // Blocked cells start out visited, so the search never enters them
+  const visited = buildBlockedMask(puzzle);
+  const total = visited.reduce((open, blocked) => open - blocked, cellCount); // Cells the path must cover
+
+  const sortedAnchors: Anchor[] = [...puzzle.anchors].sort((a, b) => a.number - b.number);
+  if (sortedAnchors.length === 0 || total === 0) return { solutions: [], complete: true };
+
+  // anchorOrder[cell] = 1-based position of the anchor on that cell, 0 if none
+  const anchorOrder = new Int16Array(cellCount);
+  const anchorCells: number[] = [];
+  for (let i = 0; i < sortedAnchors.length; i++) {
+    const { row, col } = sortedAnchors[i];
+    if (row < 0 || row >= rows || col < 0 || col >= cols || visited[row * cols + col]) return { solutions: [], complete: true };
+    anchorOrder[row * cols + col] = i + 1;
+    anchorCells.push(row * cols + col);
+  }
+
+  const neighbours = buildNeighbours(puzzle);
+  const seen = new Uint8Array(cellCount); // Scratch buffer for flood fills
+  const stack = new Int16Array(cellCount);
+  const heldBack = new Int16Array(cellCount);
+  const path: number[] = [];
+  const solutions: Cell[][] = [];
+  let nodes = 0;
+  let aborted = false;
+
+  /**
+   * Cheap dead-state detection: the unvisited cells must all be reachable
+   * from the head, at most one of them may be a forced endpoint (a cell with
+   * a single free neighbour), and the next anchor must be reachable without
+   * stepping on a later one.
+   */
+  const isViable = (head: number, remaining: number, nextAnchor: number): boolean => {
+    if (remaining === 0) return true;
+
+    let endpoints = 0;
+    for (let cell = 0; cell < cellCount; cell++) {
+      if (visited[cell]) continue;
+      let degree = 0;
+      for (const nb of neighbours[cell]) {
+        if (!visited[nb] || nb === head) degree++;
+      }
+      if (degree === 0) return false;
+      if (degree === 1) {
+        // A forced endpoint ends the path, so it cannot be an anchor that still has successors
+        const order = anchorOrder[cell];
+        if (order !== 0 && order < sortedAnchors.length) return false;
+        if (++endpoints > 1) return false;
+      }
+    }
+
+    // Flood fill from the head. Later anchors are held back until the first
+    // pass is done, so that pass shows whether the next anchor is reachable
+    // without stepping on one of them.
+    seen.fill(0);
+    let top = 0;
+    let held = 0;
+    let reached = 0;
+    for (const nb of neighbours[head]) {
+      if (!visited[nb]) {
+        seen[nb] = 1;
+        stack[top++] = nb;
+      }
+    }
+    const expand = (cell: number) => {
+      reached++;
+      for (const nb of neighbours[cell]) {
+        if (!visited[nb] && !seen[nb]) {
+          seen[nb] = 1;
+          stack[top++] = nb;
+        }
+      }
+    };
+    while (top > 0) {
+      const cell = stack[--top];
+      const order = anchorOrder[cell];
+      if (order > nextAnchor) {
+        heldBack[held++] = cell;
+        continue;
+      }
+      expand(cell);
+    }
+    if (nextAnchor <= sortedAnchors.length && !seen[anchorCells[nextAnchor - 1]]) return false;
+
+    for (let i = 0; i < held; i++) {
+      expand(heldBack[i]);
+      while (top > 0) expand(stack[--top]);
+    }
+    return reached === remaining;
+  };
+
+  const search = (head: number, nextAnchor: number) => {
+    if (aborted || solutions.length >= limit) return;
+    if (path.length === total) {
+      solutions.push(path.map((idx) => ({ row: Math.floor(idx / cols), col: idx % cols })));
+      return;
+    }
+    if (++nodes > maxNodes) {
+      aborted = true;
+      return;
+    }
+    if (!isViable(head, total - path.length, nextAnchor)) return;
+
+    for (const nb of neighbours[head]) {
+      if (visited[nb]) continue;
+      const order = anchorOrder[nb];
+      // Anchors must be entered strictly in order
+      if (order !== 0 && order !== nextAnchor) continue;
+
+      visited[nb] = 1;
+      path.push(nb);
+      search(nb, order !== 0 ? nextAnchor + 1 : nextAnchor);
+      path.pop();
+      visited[nb] = 0;
+
+      if (aborted || solutions.length >= limit) return;
+    }
+  };
+
+  const start = anchorCells[0];
+  visited[start] = 1;
+  path.push(start);
+  search(start, 2);
+
+  return { solutions, complete: !aborted };
+}
+
+/**
+ * Count solutions, stopping at `limit`.
+ * An unfinished search is reported as `limit` — it could not be proven unique.
+ */
+export function countSolutions(puzzle: PuzzleShape, limit = 2, maxNodes?: number): number {
+  const result = findSolutions(puzzle, { limit, maxNodes });
+  return result.complete ? result.solutions.length : limit;
+}
+
+/** True if the puzzle has exactly one solution */
+export function hasUniqueSolution(puzzle: PuzzleShape, maxNodes?: number): boolean {
+  return countSolutions(puzzle, 2, maxNodes) === 1;
+}
@@ -11,18 +11,43 @@ export interface Anchor {
   number: number; // The sequential number displayed on this cell
 }
 
-export interface Puzzle {
+/** A wall on the right or bottom edge of a cell — the path cannot cross it */
+export interface Wall {
+  row: number;
+  col: number;
+  side: "right" | "bottom";
+}
+
+/** Board dimensions plus any cells the path must skip and edges it cannot cross */
+export interface GridLayout {
+  rows: number;
+  cols: number;
+  blocked?: Cell[]; // Cells that are not part of the board
+  walls?: Wall[];
+}
+
+export interface Puzzle extends GridLayout {
   id: string;
-  size: number; // Grid dimension (e.g., 5 for 5×5)
   anchors: Anchor[]; // Numbered cells the path must pass through in order
   date: string; // ISO date string for daily puzzles
-  difficulty: "easy" | "medium" | "hard";
+  difficulty: "easy" | "medium" | "hard"; // Measured by the logic solver, see difficulty.ts
+  difficultyScore: number; // Average deduction effort per step × 10
+  verifiedUnique: boolean; // Solver confirmed the anchors allow exactly one path
 }
 
+/** Everything the rules depend on — what the solver, rater and validator read */
+export type PuzzleShape = GridLayout & Pick<Puzzle, "anchors">;
+
 export interface Solution {
   path: Cell[]; // Ordered list of cells forming the solution path
 }
 
+/** Server-side generator output — the solution must never be sent to clients */
+export interface GeneratedPuzzle {
+  puzzle: Puzzle;
+  solution: Solution;
+}
+
 export interface GameState {
   puzzle: Puzzle;
   currentPath: Cell[];
@@ -35,9 +60,24 @@ export interface LeaderboardEntry {
   name: string;
   timeMs: number;
   date: string;
+  replayId?: string;
+  playerId?: string;
+  hintsUsed?: number; // Hints taken during the run — hinted runs rank below unaided ones
+}
+
+export interface HintResult {
+  type: "next" | "undo" | "complete"; // Extend the path, remove a wrong cell, or nothing left to do
+  cell?: Cell; // The cell to play next, or the first wrong cell to undo
+  hintsUsed: number;
 }
 
 export interface ValidationResult {
   valid: boolean;
   error?: string;
 }
+
+export interface ReplayMove {
+  type: "extend" | "backtrack" | "undo" | "reset"; // Backtrack is a drag onto the previous cell, undo the Undo button
+  t: number; // ms since the puzzle was shown
+  cell?: Cell; // Only for extend
+}
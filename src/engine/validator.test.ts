@@ -0,0 +1,61 @@
+/**
+ * Validator tests — each rule a submitted path can break, on a small board
+ * with a blocked cell and a wall.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Cell, PuzzleShape } from "./types";
+import { validatePath } from "./validator";
+
+// 2×3 with the bottom right cell blocked and a wall between the two anchors:
+//   1|2 .
+//   . . #
+const puzzle: PuzzleShape = {
+  rows: 2,
+  cols: 3,
+  blocked: [{ row: 1, col: 2 }],
+  walls: [{ row: 0, col: 0, side: "right" }],
+  anchors: [
+    { row: 0, col: 0, number: 1 },
+    { row: 0, col: 1, number: 2 },
+  ],
+};
+
+const cells = (...coords: [number, number][]): Cell[] => coords.map(([row, col]) => ({ row, col }));
+
+test("accepts a path that solves the puzzle", () => {
+  assert.deepEqual(validatePath(cells([0, 0], [1, 0], [1, 1], [0, 1], [0, 2]), puzzle), { valid: true });
+});
+
+test("rejects paths that break a rule", () => {
+  const cases: [string, Cell[], RegExp][] = [
+    ["too short", cells([0, 0], [0, 1]), /covers 2\/5 cells/],
+    ["blocked cell", cells([0, 0], [0, 1], [0, 2], [1, 2], [1, 1]), /out of bounds or blocked/],
+    ["out of bounds", cells([0, 0], [0, 1], [0, 2], [0, 3], [1, 1]), /out of bounds or blocked/],
+    ["duplicate cell", cells([0, 0], [0, 1], [0, 0], [1, 0], [1, 1]), /visited more than once/],
+    ["diagonal step", cells([0, 0], [1, 1], [1, 0], [0, 1], [0, 2]), /is not adjacent/],
+    ["through a wall", cells([0, 0], [0, 1], [1, 1], [1, 0], [0, 2]), /crosses a wall/],
+    ["wrong start", cells([0, 2], [0, 1], [1, 1], [1, 0], [0, 0]), /must start on anchor 1/],
+  ];
+  for (const [name, path, error] of cases) {
+    const result = validatePath(path, puzzle);
+    assert.equal(result.valid, false, name);
+    assert.match(result.error ?? "", error, name);
+  }
+});
+
+test("rejects anchors visited out of order", () => {
+  const puzzle: PuzzleShape = {
+    rows: 2,
+    cols: 2,
+    anchors: [
+      { row: 0, col: 0, number: 1 },
+      { row: 0, col: 1, number: 2 },
+      { row: 1, col: 0, number: 3 },
+    ],
+  };
+  const result = validatePath(cells([0, 0], [1, 0], [1, 1], [0, 1]), puzzle);
+  assert.equal(result.valid, false);
+  assert.match(result.error ?? "", /ascending order/);
+});
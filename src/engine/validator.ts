@@ -2,7 +2,8 @@
  * Path validator — checks that a submitted path is a valid solution.
  */
 
-import type { Anchor, Cell, ValidationResult } from "./types";
+import type { Cell, PuzzleShape, ValidationResult } from "./types";
+import { buildWallSet, countOpenCells, hasWallBetween, isOpenCell } from "./grid";
 
 /** Check if two cells are adjacent (horizontal or vertical only) */
 function isAdjacent(a: Cell, b: Cell): boolean {
@@ -17,12 +18,13 @@ function isSameCell(a: Cell, b: Cell): boolean {
 }
 
 /**
- * Validate a submitted path against a puzzle's anchors and grid size.
+ * Validate a submitted path against a puzzle's anchors and board layout (blocked cells and walls).
  */
-export function validatePath(path: Cell[], anchors: Anchor[], gridSize: number): ValidationResult {
-  const totalCells = gridSize * gridSize;
+export function validatePath(path: Cell[], puzzle: PuzzleShape): ValidationResult {
+  const { anchors } = puzzle;
+  const totalCells = countOpenCells(puzzle);
 
-  // 1. Path must cover every cell
+  // 1. Path must cover every open cell
   if (path.length !== totalCells) {
     return {
       valid: false,
@@ -30,12 +32,12 @@ export function validatePath(path: Cell[], anchors: Anchor[], gridSize: number):
     };
   }
 
-  // 2. All cells must be within bounds
+  // 2. All cells must be within bounds and not blocked
   for (const cell of path) {
-    if (cell.row < 0 || cell.row >= gridSize || cell.col < 0 || cell.col >= gridSize) {
+    if (!isOpenCell(puzzle, cell)) {
       return {
         valid: false,
-        error: `Cell (${cell.row}, ${cell.col}) is out of bounds.`,
+        error: `Cell (${cell.row}, ${cell.col}) is out of bounds or blocked.`,
       };
     }
   }
@@ -53,7 +55,8 @@ export function validatePath(path: Cell[], anchors: Anchor[], gridSize: number):
     seen.add(key);
   }
 
-  // 4. Each step must be adjacent (no diagonals)
+  // 4. Each step must be adjacent (no diagonals) and must not cross a wall
+  const walls = buildWallSet(puzzle);
   for (let i = 1; i < path.length; i++) {
     if (!isAdjacent(path[i - 1], path[i])) {
       return {
@@ -61,10 +64,24 @@ export function validatePath(path: Cell[], anchors: Anchor[], gridSize: number):
         error: `Move from (${path[i - 1].row},${path[i - 1].col}) to (${path[i].row},${path[i].col}) is not adjacent.`,
       };
     }
+    if (hasWallBetween(walls, path[i - 1], path[i])) {
+      return {
+        valid: false,
+        error: `Move from (${path[i - 1].row},${path[i - 1].col}) to (${path[i].row},${path[i].col}) crosses a wall.`,
+      };
+    }
   }
 
-  // 5. Anchors must appear in the path in ascending order
+  // 5. Anchors must appear in the path in ascending order, starting on the first one
+  // (the solver counts solutions under the same rule when checking uniqueness)
   const sortedAnchors = [...anchors].sort((a, b) => a.number - b.number);
+  if (sortedAnchors.length > 0 && !isSameCell(path[0], sortedAnchors[0])) {
+    return {
+      valid: false,
+      error: `Path must start on anchor ${sortedAnchors[0].number}.`,
+    };
+  }
+
   let anchorIdx = 0;
 
   for (const cell of path) {
@@ -0,0 +1,49 @@
+/**
+ * Generator versions — which algorithm built which daily.
+ *
+ * Every change that alters generated output gets a new version and a start
+ * date. Dates before that keep their original version, so past dailies (and
+ * the leaderboards attached to them) can always be rebuilt exactly.
+ */
+
+export interface GeneratorVersion {
+  version: number;
+  since: string; // First daily (YYYY-MM-DD) built with this version
+}
+
+// Oldest first. Never edit a released entry — append a new one instead.
+export const GENERATOR_VERSIONS: GeneratorVersion[] = [
+  { version: 1, since: "0000-01-01" },
+  { version: 2, since: "2026-10-19" }, // Unique solutions, rated difficulty, layouts and walls
+];
+
+export const CURRENT_GENERATOR_VERSION = GENERATOR_VERSIONS[GENERATOR_VERSIONS.length - 1].version;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Version that builds the puzzle for a seed — dated dailies follow the schedule, anything else is current */
+export function generatorVersionForSeed(seedStr: string): number {
+  if (!DATE_RE.test(seedStr)) return CURRENT_GENERATOR_VERSION;
+  let version = GENERATOR_VERSIONS[0].version;
+  for (const entry of GENERATOR_VERSIONS) {
+    if (seedStr >= entry.since) version = entry.version;
+  }
+  return version;
+}
+
+/**
+ * Puzzle id carrying its generator version, e.g. "zip-v2-2026-10-19".
+ * v1 ids keep their original unversioned form ("zip-2026-10-18") — stored
+ * leaderboards and replays are keyed by them.
+ */
+export function formatPuzzleId(version: number, seedStr: string): string {
+  return version === 1 ? `zip-${seedStr}` : `zip-v${version}-${seedStr}`;
+}
+
+/** Split a puzzle id back into version and seed — an unversioned id is v1, anything else not a puzzle id is null */
+export function parsePuzzleId(id: string): { version: number; seed: string } | null {
+  const match = /^zip-v(\d+)-(.+)$/.exec(id);
+  if (match) return { version: Number(match[1]), seed: match[2] };
+  const legacy = /^zip-(.+)$/.exec(id);
+  return legacy ? { version: 1, seed: legacy[1] } : null;
+}
@@ -0,0 +1,21 @@
+/**
+ * Room protocol constants (lib/room-protocol.ts) that the room page needs at
+ * runtime. Kept apart from the message schemas so the client bundle does not
+ * pull in typebox.
+ */
+
+export const ROOM_PROTOCOL_VERSION = 1;
+
+// Settings bounds — enforced by the `settings` message and `/api/room` schemas
+export const ROOM_LIMITS = {
+  minLevels: 1,
+  maxLevels: 20,
+  minPlayers: 2,
+  maxPlayers: 20,
+  minLevelTimeS: 30,
+  maxLevelTimeS: 1800,
+  minSprintS: 60,
+  maxSprintS: 1800,
+} as const;
+
+export const MAX_CHAT_LENGTH = 280;
@@ -0,0 +1,76 @@
+/**
+ * Room deltas — what changed between two room summaries. The room hub sends
+ * these in `room:delta` events instead of the whole summary; the room page
+ * applies them to the room it already holds.
+ */
+
+import type { RoomSummary } from "@/server/room-manager";
+
+type RoomPlayerSummary = RoomSummary["players"][number];
+type RoomFields = Omit<RoomSummary, "players">;
+
+export type RoomDelta =
+  | { op: "player:joined"; player: RoomPlayerSummary }
+  | { op: "player:left"; playerId: string }
+  | { op: "player:changed"; playerId: string; changes: Partial<RoomPlayerSummary> } // Advanced a level, finished, presence...
+  | { op: "room:changed"; changes: Partial<RoomFields> }; // Status, host, lock, settings...
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function changedFields<T extends object>(prev: T, next: T): Partial<T> {
+  const changes: Partial<T> = {};
+  for (const key of Object.keys(next) as (keyof T)[]) {
+    if (!isSame(prev[key], next[key])) changes[key] = next[key];
+  }
+  return changes;
+}
+
+/** The deltas that turn `prev` into `next` — empty if nothing a client can see changed */
+export function diffRoomSummary(prev: RoomSummary, next: RoomSummary): RoomDelta[] {
+  const { players: prevPlayers, ...prevFields } = prev;
+  const { players: nextPlayers, ...nextFields } = next;
+  const deltas: RoomDelta[] = [];
+
+  const roomChanges = changedFields<RoomFields>(prevFields, nextFields);
+  if (Object.keys(roomChanges).length > 0) deltas.push({ op: "room:changed", changes: roomChanges });
+
+  const nextIds = new Set(nextPlayers.map((p) => p.id));
+  for (const player of prevPlayers) {
+    if (!nextIds.has(player.id)) deltas.push({ op: "player:left", playerId: player.id });
+  }
+
+  const prevById = new Map(prevPlayers.map((p) => [p.id, p]));
+  for (const player of nextPlayers) {
+    const before = prevById.get(player.id);
+    if (!before) {
+      deltas.push({ op: "player:joined", player });
+      continue;
+    }
+    const changes = changedFields(before, player);
+    if (Object.keys(changes).length > 0) deltas.push({ op: "player:changed", playerId: player.id, changes });
+  }
+
+  return deltas;
+}
+
+/** Apply deltas to a room shaped like a summary — extra fields (e.g. the levels) are kept */
+export function applyRoomDeltas<R extends { players: { id: string }[] }>(room: R, deltas: RoomDelta[]): R {
+  let next = room;
+  for (const delta of deltas) {
+    switch (delta.op) {
+      case "room:changed":
+        next = { ...next, ...delta.changes };
+        break;
+      case "player:joined":
+        next = { ...next, players: [...next.players, delta.player] };
+        break;
+      case "player:left":
+        next = { ...next, players: next.players.filter((p) => p.id !== delta.playerId) };
+        break;
+      case "player:changed":
+        next = { ...next, players: next.players.map((p) => (p.id === delta.playerId ? { ...p, ...delta.changes } : p)) };
+        break;
+    }
+  }
+  return next;
+}
@@ -0,0 +1,127 @@
+/**
+ * Room WebSocket protocol — the messages exchanged over `/ws`, shared by
+ * server/room-hub.ts and the room page.
+ *
+ * Every client message carries the protocol version `v` and a `type`. Messages
+ * sent with an `id` are requests: the hub answers each with exactly one
+ * `response` carrying the same id. Everything else the hub sends is an event.
+ *
+ * Room state arrives as a full summary (`room:update`, and the `join` and
+ * `snapshot` results) followed by `room:delta` events (lib/room-delta.ts). Both
+ * carry the room's sequence number; a client that sees a gap asks for a `snapshot`.
+ * Client messages are checked against the schemas below before they are handled.
+ * The version and limits live in lib/room-constants.ts, which the client imports.
+ */
+
+import { Type, type Static } from "@sinclair/typebox";
+import type { Puzzle } from "@/engine/types";
+import type { LevelDraft, RoomSummary } from "@/server/room-manager";
+import type { ReplayRejectionReason } from "@/server/replay-check";
+import type { RoomDelta } from "./room-delta";
+import { MAX_CHAT_LENGTH, ROOM_LIMITS, ROOM_PROTOCOL_VERSION } from "./room-constants";
+
+const cellSchema = Type.Object({ row: Type.Integer(), col: Type.Integer() });
+const difficultySchema = Type.Union([Type.Literal("easy"), Type.Literal("medium"), Type.Literal("hard")]);
+
+// Room settings as sent by the lobby — anything left out falls back to DEFAULT_ROOM_SETTINGS (server/room-manager.ts)
+export const roomSettingsSchema = Type.Object({
+  mode: Type.Optional(Type.Union([Type.Literal("race"), Type.Literal("sprint"), Type.Literal("elimination"), Type.Literal("best-of")])),
+  sprintDurationS: Type.Optional(Type.Integer({ minimum: ROOM_LIMITS.minSprintS, maximum: ROOM_LIMITS.maxSprintS })),
+  levelCount: Type.Integer({ minimum: ROOM_LIMITS.minLevels, maximum: ROOM_LIMITS.maxLevels }),
+  curve: Type.Optional(Type.Union([Type.Literal("ramp"), Type.Literal("easy"), Type.Literal("medium"), Type.Literal("hard")])),
+  difficulties: Type.Optional(Type.Array(difficultySchema, { minItems: ROOM_LIMITS.minLevels, maxItems: ROOM_LIMITS.maxLevels })),
+  maxPlayers: Type.Optional(Type.Integer({ minimum: ROOM_LIMITS.minPlayers, maximum: ROOM_LIMITS.maxPlayers })),
+  levelTimeLimitS: Type.Optional(Type.Integer({ minimum: ROOM_LIMITS.minLevelTimeS, maximum: ROOM_LIMITS.maxLevelTimeS })),
+  dailyAsFirstLevel: Type.Optional(Type.Boolean()),
+});
+export type RoomSettingsInput = Static<typeof roomSettingsSchema>;
+
+// Fields every client message carries
+const envelope = {
+  v: Type.Literal(ROOM_PROTOCOL_VERSION),
+  id: Type.Optional(Type.String({ maxLength: 64 })),
+};
+
+const message = <T extends string, P extends Parameters<typeof Type.Object>[0]>(type: T, payload: P) => Type.Object({ ...envelope, type: Type.Literal(type), ...payload });
+
+export const clientMessageSchema = Type.Union([
+  message("join", { roomId: Type.String({ maxLength: 16 }) }),
+  message("leave", {}),
+  message("start", {}),
+  message("progress", { levelIndex: Type.Integer({ minimum: 0 }), path: Type.Array(cellSchema), replay: Type.String() }),
+  message("draft", { levelIndex: Type.Integer({ minimum: 0 }), path: Type.Array(cellSchema), replay: Type.String() }),
+  message("skip", { levelIndex: Type.Integer({ minimum: 0 }) }),
+  message("settings", { settings: roomSettingsSchema }),
+  message("kick", { playerId: Type.String() }),
+  message("transfer-host", { playerId: Type.String() }),
+  message("lock", { locked: Type.Boolean() }),
+  message("rematch", {}),
+  message("chat", { text: Type.String({ minLength: 1, maxLength: MAX_CHAT_LENGTH }) }),
+  message("presence", { away: Type.Boolean() }),
+  message("level", { levelIndex: Type.Integer({ minimum: 0 }) }),
+  message("snapshot", {}),
+  message("ping", {}),
+]);
+
+export type ClientMessage = Static<typeof clientMessageSchema>;
+export type ClientMessageType = ClientMessage["type"];
+
+/** What a client message looks like before the envelope fields are added */
+export type ClientRequest = ClientMessage extends infer M ? (M extends ClientMessage ? Omit<M, "v" | "id"> : never) : never;
+
+export type RoomErrorCode =
+  | "BAD_REQUEST" // Not JSON, or does not match the message schemas
+  | "UNSUPPORTED_VERSION"
+  | "NOT_SIGNED_IN"
+  | "NOT_JOINED" // Needs a `join` first
+  | "NOT_FOUND"
+  | "FORBIDDEN" // Not allowed for this player (e.g. host-only)
+  | "CONFLICT" // Not allowed in the room's current state
+  | "REJECTED"; // Submitted run did not check out
+
+/** Why a `progress` submission was turned down — sent alongside the error code */
+export type ProgressRejectionReason =
+  | ReplayRejectionReason
+  | "NOT_IN_PLAY" // The room is not playing, or there is no such level
+  | "WRONG_LEVEL" // Not the level the player is on
+  | "TIME_UP"; // The level's time limit ran out
+
+export interface ChatMessage {
+  playerId: string;
+  name: string;
+  text: string;
+  sentAt: number;
+}
+
+/** The full room as a member sees it on join — levels they have not reached yet are null */
+export type RoomSnapshot = RoomSummary & { levels: (Puzzle | null)[] };
+
+/** Results for requests that return something — the rest resolve to `{}` */
+export interface RoomResults {
+  join: { room: RoomSnapshot; seq: number; draft: LevelDraft | null; chat: ChatMessage[] };
+  snapshot: { room: RoomSummary; seq: number };
+  level: { level: Puzzle };
+  progress: { room: RoomSummary };
+  skip: { room: RoomSummary };
+  rematch: { roomId: string };
+  ping: { serverTime: number };
+}
+
+export type RoomResult<T extends ClientMessageType> = T extends keyof RoomResults ? RoomResults[T] : Record<string, never>;
+
+/** A request's outcome as the client sees it — "DISCONNECTED" if the socket closed before the response arrived */
+export type RoomResponse<T extends ClientMessageType> = { ok: true; result: RoomResult<T> } | { ok: false; code: RoomErrorCode | "DISCONNECTED"; error: string; reason?: ProgressRejectionReason };
+
+/** Everything the hub sends, before the version is added */
+export type ServerEvent =
+  | { type: "response"; id: string; ok: true; result: unknown }
+  | { type: "response"; id: string; ok: false; code: RoomErrorCode; error: string; reason?: ProgressRejectionReason }
+  | { type: "error"; code: RoomErrorCode; error: string } // For messages sent without an id, and connection problems
+  | { type: "room:update"; room: RoomSummary; seq: number }
+  | { type: "room:delta"; seq: number; changes: RoomDelta[] } // `seq` is one more than the last update or delta
+  | { type: "room:expiring"; expiresAt: number }
+  | { type: "room:expired" }
+  | { type: "kicked" }
+  | { type: "chat"; message: ChatMessage };
+
+export type ServerMessage = ServerEvent & { v: typeof ROOM_PROTOCOL_VERSION };
@@ -0,0 +1,58 @@
+/**
+ * Room standings — the order players are shown in on the room page, by room
+ * mode (RoomMode in server/room-manager.ts).
+ */
+
+import type { RoomMode } from "@/server/room-manager";
+
+export interface RankedPlayer {
+  currentLevel: number;
+  finished: boolean;
+  finishTime?: number;
+  skippedLevels?: number[];
+  levelFinishedAt?: (number | null)[];
+  points?: number;
+  eliminatedOnLevel?: number;
+}
+
+type Compare = (a: RankedPlayer, b: RankedPlayer) => number;
+
+/** Levels solved in time — timed-out levels do not count */
+export function solvedLevelCount(player: RankedPlayer): number {
+  return (player.levelFinishedAt ?? []).filter((at, i) => at != null && !player.skippedLevels?.includes(i)).length;
+}
+
+// When the player last cleared a level — ties in solved levels go to whoever got there first
+const lastSolveAt = (player: RankedPlayer) => Math.max(0, ...(player.levelFinishedAt ?? []).map((at) => at ?? 0));
+
+// Finished players by finish time, then everyone else by how far they got
+const byRace: Compare = (a, b) => {
+  if (a.finished && b.finished) return (a.finishTime || 0) - (b.finishTime || 0);
+  if (a.finished) return -1;
+  if (b.finished) return 1;
+  return b.currentLevel - a.currentLevel;
+};
+
+const bySprint: Compare = (a, b) => solvedLevelCount(b) - solvedLevelCount(a) || lastSolveAt(a) - lastSolveAt(b);
+
+// Players still in come first; of those knocked out, the later they went the higher they place
+const byElimination: Compare = (a, b) => {
+  const aOut = a.eliminatedOnLevel ?? Infinity;
+  const bOut = b.eliminatedOnLevel ?? Infinity;
+  if (aOut !== bOut) return bOut - aOut;
+  return byRace(a, b);
+};
+
+const byPoints: Compare = (a, b) => (b.points ?? 0) - (a.points ?? 0) || byRace(a, b);
+
+const compareByMode: Record<RoomMode, Compare> = {
+  race: byRace,
+  sprint: bySprint,
+  elimination: byElimination,
+  "best-of": byPoints,
+};
+
+/** Players from first to last place under the room's mode */
+export function rankRoomPlayers<P extends RankedPlayer>(players: P[], mode: RoomMode = "race"): P[] {
+  return [...players].sort(compareByMode[mode] ?? byRace);
+}
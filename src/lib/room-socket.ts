@@ -0,0 +1,113 @@
+/**
+ * Browser side of the room protocol (lib/room-protocol.ts): one socket to `/ws`,
+ * requests matched to their responses by id, and a callback for everything else.
+ */
+
+import { ROOM_PROTOCOL_VERSION } from "./room-constants";
+import type { ClientMessageType, ClientRequest, RoomResponse, RoomResult, ServerEvent, ServerMessage } from "./room-protocol";
+
+type RoomEvent = Exclude<ServerEvent, { type: "response" }>;
+
+export interface RoomSocket {
+  /** Send a request and wait for its response — resolves (never rejects) with the outcome */
+  request<T extends ClientMessageType>(message: Extract<ClientRequest, { type: T }>): Promise<RoomResponse<T>>;
+  /** Send without waiting for an answer — failures come back as `error` events */
+  send(message: ClientRequest): void;
+  close(): void;
+}
+
+interface RoomSocketHandlers {
+  onOpen?: () => void;
+  onEvent: (event: RoomEvent) => void;
+  onClose?: (event: CloseEvent) => void;
+}
+
+export function connectRoomSocket({ onOpen, onEvent, onClose }: RoomSocketHandlers): RoomSocket {
+  const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+  const ws = new WebSocket(`${protocol}://${window.location.host}/ws`);
+  const pending = new Map<string, (response: RoomResponse<ClientMessageType>) => void>();
+  // Messages sent before the socket opens go out once it does
+  const queue: string[] = [];
+  let nextId = 1;
+
+  const write = (payload: string) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(payload);
+    else if (ws.readyState === WebSocket.CONNECTING) queue.push(payload);
+  };
+
+  ws.onopen = () => {
+    for (const payload of queue.splice(0)) ws.send(payload);
+    onOpen?.();
+  };
+
+  ws.onmessage = (event) => {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(event.data) as ServerMessage;
+    } catch (err) {
+      console.error("Failed to parse websocket message", err);
+      return;
+    }
+
+    if (message.type === "response") {
+      const resolve = pending.get(message.id);
+      pending.delete(message.id);
+      resolve?.(message.ok ? { ok: true, result: message.result as RoomResult<ClientMessageType> } : { ok: false, code: message.code, error: message.error, reason: message.reason });
+      return;
+    }
+    onEvent(message);
+  };
+
+  ws.onerror = () => {
+    ws.close();
+  };
+
+  ws.onclose = (event) => {
+    for (const resolve of pending.values()) resolve({ ok: false, code: "DISCONNECTED", error: "Connection lost" });
+    pending.clear();
+    onClose?.(event);
+  };
+
+  return {
+    request(message) {
+      const id = String(nextId++);
+      return new Promise((resolve) => {
+        if (ws.readyState === WebSocket.CLOSING || ws.readyState === WebSocket.CLOSED) {
+          resolve({ ok: false, code: "DISCONNECTED", error: "Connection lost" });
+          return;
+        }
+        pending.set(id, resolve as (response: RoomResponse<ClientMessageType>) => void);
+        write(JSON.stringify({ ...message, v: ROOM_PROTOCOL_VERSION, id }));
+      });
+    },
+    send(message) {
+      write(JSON.stringify({ ...message, v: ROOM_PROTOCOL_VERSION }));
+    },
+    close() {
+      ws.onclose = null;
+      ws.close();
+      for (const resolve of pending.values()) resolve({ ok: false, code: "DISCONNECTED", error: "Connection closed" });
+      pending.clear();
+    },
+  };
+}
+
+/**
+ * How far the server clock is ahead of ours (server minus local), from the
+ * quickest of a few pings — null if the socket closed first. Subtract it from
+ * a server timestamp to get the same moment on the local clock.
+ */
+export async function measureClockOffset(socket: RoomSocket, samples = 3): Promise<number | null> {
+  let best: { roundTripMs: number; offsetMs: number } | null = null;
+  for (let i = 0; i < samples; i++) {
+    const sentAt = Date.now();
+    const res = await socket.request({ type: "ping" });
+    const receivedAt = Date.now();
+    if (!res.ok) break;
+    // Assume the answer spent half the round trip in flight
+    const roundTripMs = receivedAt - sentAt;
+    const offsetMs = res.result.serverTime + roundTripMs / 2 - receivedAt;
+    if (!best || roundTripMs < best.roundTripMs) best = { roundTripMs, offsetMs };
+  }
+  return best?.offsetMs ?? null;
+}
@@ -4,33 +4,195 @@
  */
 
 import { Elysia, t } from "elysia";
-import { generatePuzzle } from "../engine/generator";
+import { generatePuzzle, generateSolutionPath } from "../engine/generator";
+import { getHint } from "../engine/hint";
 import { validatePath } from "../engine/validator";
-import { getTodayStr } from "../engine/seeder";
-import { RoomManager, toRoomSummary } from "./room-manager";
+import type { Cell, LeaderboardEntry } from "../engine/types";
+import { getTodayStr, isArchiveDate, isFutureDate } from "../engine/seeder";
+import { canSeeLevel, RoomManager, toRoomSummary, visibleLevels } from "./room-manager";
+import { isRoomActionError, saveRoomDraft, submitRoomProgress, toRoomSettings } from "./room-actions";
+import { checkReplay } from "./replay-check";
+import { roomSettingsSchema, type RoomErrorCode } from "../lib/room-protocol";
+import { getStorage, type LeaderboardBoard } from "./storage";
+import { computePlayerStats } from "./player-stats";
+import { createAccount, PLAYER_COOKIE, PLAYER_COOKIE_MAX_AGE_S, resolvePlayer } from "./identity";
+import { issueFinishStamp, issueSessionToken, minSolveTimeMs, verifyFinishStamp, verifySessionToken } from "./session-token";
+import { countOpenCells } from "../engine/grid";
 
-// In-memory leaderboard (resets on cold start — fine for MVP)
-const leaderboards = new Map<string, Array<{ name: string; timeMs: number }>>();
+const cellSchema = t.Object({
+  row: t.Number(),
+  col: t.Number(),
+});
 
-function getLeaderboard(date: string) {
-  if (!leaderboards.has(date)) {
-    leaderboards.set(date, []);
+// Public puzzle shape — mirrors `Puzzle` in engine/types.ts (never includes the solution)
+const puzzleSchema = t.Object({
+  id: t.String(),
+  rows: t.Integer({ minimum: 1 }),
+  cols: t.Integer({ minimum: 1 }),
+  blocked: t.Optional(t.Array(cellSchema)),
+  walls: t.Optional(
+    t.Array(
+      t.Object({
+        row: t.Number(),
+        col: t.Number(),
+        side: t.Union([t.Literal("right"), t.Literal("bottom")]),
+      }),
+    ),
+  ),
+  anchors: t.Array(
+    t.Object({
+      row: t.Number(),
+      col: t.Number(),
+      number: t.Number(),
+    }),
+  ),
+  date: t.String(),
+  difficulty: t.Union([t.Literal("easy"), t.Literal("medium"), t.Literal("hard")]),
+  difficultyScore: t.Number(),
+  verifiedUnique: t.Boolean(),
+});
+
+const errorSchema = t.Object({
+  error: t.String(),
+});
+
+// HTTP status for each room error code (the room hub sends the codes as-is)
+const ROOM_ERROR_STATUS: Record<RoomErrorCode, number> = {
+  BAD_REQUEST: 400,
+  UNSUPPORTED_VERSION: 400,
+  NOT_SIGNED_IN: 401,
+  NOT_JOINED: 403,
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  REJECTED: 422,
+};
+
+const FUTURE_DATE_ERROR = "That puzzle has not been released yet";
+const NO_DAILY_ERROR = "There is no daily puzzle for that date";
+const SIGNED_OUT_ERROR = "No player session — reload the home page to get one";
+
+const SESSION_TOKEN_ERROR = "Invalid or expired session token";
+
+/** Why a date has no playable daily — not released yet, or not a date in the archive at all — or null if it has one */
+function dailyDateError(date: string): { status: 403 | 404; error: string } | null {
+  if (isFutureDate(date)) return { status: 403, error: FUTURE_DATE_ERROR };
+  if (!isArchiveDate(date)) return { status: 404, error: NO_DAILY_ERROR };
+  return null;
+}
+
+/** Public leaderboard rows — the date is implied by the request */
+function toPublicEntries(entries: LeaderboardEntry[]) {
+  return entries.map(({ name, timeMs, replayId, hintsUsed }) => ({ name, timeMs, replayId, hintsUsed }));
+}
+
+/** Parse a compact path query ("row,col;row,col;...") — returns null if malformed */
+function parsePathQuery(raw: string): Cell[] | null {
+  if (raw.trim() === "") return [];
+  const cells: Cell[] = [];
+  for (const part of raw.split(";")) {
+    const [row, col] = part.split(",").map(Number);
+    if (!Number.isInteger(row) || !Number.isInteger(col)) return null;
+    cells.push({ row, col });
   }
-  return leaderboards.get(date)!;
+  return cells;
 }
 
 export const app = new Elysia({ prefix: "/api" })
+  // The signed-in player (from the account cookie), or null
+  .derive(({ cookie }) => ({
+    player: resolvePlayer(cookie[PLAYER_COOKIE].value as string | undefined),
+  }))
+
+  // GET /api/player/me — the current account
+  .get("/player/me", ({ player, set }) => {
+    if (!player) {
+      set.status = 401;
+      return { error: SIGNED_OUT_ERROR };
+    }
+    return { id: player.id, name: player.name };
+  })
+
+  // POST /api/player/me — set the display name, creating the account (and its cookie) on first use
+  .post(
+    "/player/me",
+    ({ body, player, cookie, set }) => {
+      // The schema sees the raw name, so a whitespace-only one gets past it — check again once trimmed
+      const name = body.name.trim();
+      if (!name) {
+        set.status = 400;
+        return { error: "Name cannot be blank" };
+      }
+      if (player) {
+        getStorage().players.save({ ...player, name, lastSeenAt: Date.now() });
+        return { id: player.id, name };
+      }
+
+      const account = createAccount(name);
+      cookie[PLAYER_COOKIE].set({
+        value: account.cookieValue,
+        httpOnly: true,
+        sameSite: "lax",
+        path: "/",
+        maxAge: PLAYER_COOKIE_MAX_AGE_S,
+        secure: process.env.NODE_ENV === "production",
+      });
+      return { id: account.player.id, name };
+    },
+    {
+      body: t.Object({
+        name: t.String({ minLength: 1, maxLength: 24 }),
+      }),
+    },
+  )
+
   // GET /api/puzzle/daily — returns today's puzzle
-  .get("/puzzle/daily", () => {
-    const today = getTodayStr();
-    const puzzle = generatePuzzle(today);
-    return puzzle;
+  .get(
+    "/puzzle/daily",
+    () => {
+      const today = getTodayStr();
+      const puzzle = generatePuzzle(today);
+      return puzzle;
+    },
+    {
+      response: puzzleSchema,
+    },
+  )
+
+  // POST /api/puzzle/daily/start — start a timed attempt at today's puzzle
+  .post("/puzzle/daily/start", ({ player }) => {
+    const { token, session } = issueSessionToken(getTodayStr(), player?.id);
+    return { token, date: session.date, startedAt: session.startedAt };
   })
 
-  // GET /api/puzzle/:date — returns puzzle for a specific date
+  // POST /api/puzzle/:date/start — start a timed attempt at a past daily (it goes on that date's archive board)
+  .post(
+    "/puzzle/:date/start",
+    ({ params, player, set }) => {
+      const dateError = dailyDateError(params.date);
+      if (dateError) {
+        set.status = dateError.status;
+        return { error: dateError.error };
+      }
+      const { token, session } = issueSessionToken(params.date, player?.id);
+      return { token, date: session.date, startedAt: session.startedAt };
+    },
+    {
+      params: t.Object({
+        date: t.String(),
+      }),
+    },
+  )
+
+  // GET /api/puzzle/:date — returns puzzle for a specific date (refuses dates after today)
   .get(
     "/puzzle/:date",
-    ({ params }) => {
+    ({ params, set }) => {
+      const dateError = dailyDateError(params.date);
+      if (dateError) {
+        set.status = dateError.status;
+        return { error: dateError.error };
+      }
       const puzzle = generatePuzzle(params.date);
       return puzzle;
     },
@@ -38,26 +200,74 @@ export const app = new Elysia({ prefix: "/api" })
       params: t.Object({
         date: t.String(),
       }),
+      response: {
+        200: puzzleSchema,
+        403: errorSchema,
+        404: errorSchema,
+      },
     },
   )
 
-  // POST /api/puzzle/validate — validate a submitted path
+  // GET /api/puzzle/:date/hint — next correct cell (or first wrong one) for a partial path.
+  // Hints are counted against the play session, whose finish stamp and leaderboard entry carry the count.
+  .get(
+    "/puzzle/:date/hint",
+    ({ params, query, set }) => {
+      const dateError = dailyDateError(params.date);
+      if (dateError) {
+        set.status = dateError.status;
+        return { error: dateError.error };
+      }
+      const session = verifySessionToken(query.token);
+      if (!session || session.date !== params.date) {
+        set.status = 401;
+        return { error: SESSION_TOKEN_ERROR };
+      }
+      const path = parsePathQuery(query.path ?? "");
+      if (!path) {
+        set.status = 400;
+        return { error: "Invalid path" };
+      }
+
+      const hint = getHint(path, generateSolutionPath(params.date));
+      const { hintCounts } = getStorage();
+      const hintsUsed = hint.type === "complete" ? hintCounts.get(session.nonce) : hintCounts.add(session.nonce, session.expiresAt);
+      return { ...hint, hintsUsed };
+    },
+    {
+      params: t.Object({
+        date: t.String(),
+      }),
+      query: t.Object({
+        path: t.Optional(t.String()),
+        token: t.String(),
+      }),
+    },
+  )
+
+  // POST /api/puzzle/validate — validate a submitted path. With a session token, a valid path also
+  // gets a finish stamp, so the time stops here even if it is posted to the leaderboard later.
   .post(
     "/puzzle/validate",
-    ({ body }) => {
+    ({ body, set }) => {
+      const finishedAt = Date.now();
+      const dateError = dailyDateError(body.date);
+      if (dateError) {
+        set.status = dateError.status;
+        return { valid: false, error: dateError.error };
+      }
       const puzzle = generatePuzzle(body.date);
-      const result = validatePath(body.path, puzzle.anchors, puzzle.size);
+      const result = validatePath(body.path, puzzle);
+
+      const session = body.token ? verifySessionToken(body.token) : null;
+      if (result.valid && session?.date === body.date) return { ...result, finishToken: issueFinishStamp(session, finishedAt, getStorage().hintCounts.get(session.nonce)) };
       return result;
     },
     {
       body: t.Object({
         date: t.String(),
-        path: t.Array(
-          t.Object({
-            row: t.Number(),
-            col: t.Number(),
-          }),
-        ),
+        path: t.Array(cellSchema),
+        token: t.Optional(t.String()),
       }),
     },
   )
@@ -65,50 +275,161 @@ export const app = new Elysia({ prefix: "/api" })
   // GET /api/leaderboard — get today's leaderboard
   .get("/leaderboard", () => {
     const today = getTodayStr();
-    const entries = getLeaderboard(today);
-    return entries.sort((a, b) => a.timeMs - b.timeMs).slice(0, 10);
+    return toPublicEntries(getStorage().leaderboards.list(today, 10));
   })
 
-  // POST /api/leaderboard — submit a score
+  // GET /api/leaderboard/:date — a date's same-day ranking and its archive board
+  .get(
+    "/leaderboard/:date",
+    ({ params, set }) => {
+      const dateError = dailyDateError(params.date);
+      if (dateError) {
+        set.status = dateError.status;
+        return { error: dateError.error };
+      }
+      const { leaderboards } = getStorage();
+      return {
+        date: params.date,
+        daily: toPublicEntries(leaderboards.list(params.date, 10, "daily")),
+        archive: toPublicEntries(leaderboards.list(params.date, 10, "archive")),
+      };
+    },
+    {
+      params: t.Object({
+        date: t.String(),
+      }),
+    },
+  )
+
+  // GET /api/replay/:id — a saved run with the puzzle it was played on
+  .get(
+    "/replay/:id",
+    ({ params, player, set }) => {
+      const replay = getStorage().replays.get(params.id);
+      if (!replay) {
+        set.status = 404;
+        return { error: "Replay not found" };
+      }
+      // A room replay shows the level, so it stays hidden from players who have not reached it
+      const { source } = replay;
+      const room = source.type === "room" ? RoomManager.getRoom(source.roomId) : null;
+      if (room && source.type === "room" && !canSeeLevel(room, player?.id, source.levelIndex)) {
+        set.status = 403;
+        return { error: "This replay is hidden until you reach that level" };
+      }
+      return replay;
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+    },
+  )
+
+  // POST /api/leaderboard — submit a score (time is measured on the server from the session token,
+  // up to the finish stamp from /puzzle/validate if there is one, else up to now).
+  // Runs started on the puzzle's own day rank on the daily board, later ones on the archive board.
   .post(
     "/leaderboard",
-    ({ body }) => {
-      const today = getTodayStr();
-      const entries = getLeaderboard(today);
+    ({ body, player, set }) => {
+      const receivedAt = Date.now();
+      if (!player) {
+        set.status = 401;
+        return { success: false, error: SIGNED_OUT_ERROR };
+      }
+      const session = verifySessionToken(body.token);
+      if (!session) {
+        set.status = 401;
+        return { success: false, error: SESSION_TOKEN_ERROR };
+      }
+      if (session.playerId !== undefined && session.playerId !== player.id) {
+        set.status = 403;
+        return { success: false, error: "This session was started by another player" };
+      }
+      if (getStorage().usedSessions.has(session.nonce)) {
+        set.status = 409;
+        return { success: false, error: "Session already submitted" };
+      }
+      const stamp = body.finishToken ? verifyFinishStamp(body.finishToken, session) : { finishedAt: receivedAt, hintsUsed: getStorage().hintCounts.get(session.nonce) };
+      if (stamp === null) {
+        set.status = 401;
+        return { success: false, error: "Invalid finish stamp" };
+      }
+      const { finishedAt, hintsUsed } = stamp;
 
-      // Only allow submission if there's a valid puzzle for today
-      // Validation here is minimal, trusting validated state from client mostly
-      // but ideally we should re-validate path.
-      // For MVP we just trust the client's "I won" signal if we want to save compute,
-      // but let's re-validate to be safe.
-      const puzzle = generatePuzzle(today);
-      const validation = validatePath(body.path, puzzle.anchors, puzzle.size);
+      const puzzle = generatePuzzle(session.date);
+      const timeMs = finishedAt - session.startedAt;
+      if (timeMs < minSolveTimeMs(countOpenCells(puzzle))) {
+        set.status = 422;
+        return { success: false, reason: "TOO_FAST", error: "Solve time is too fast" };
+      }
 
-      if (!validation.valid) {
-        return { success: false, error: "Invalid solution" };
+      const checked = checkReplay(body.replay, puzzle, body.path, timeMs);
+      if ("error" in checked) {
+        set.status = 422;
+        return { success: false, reason: checked.reason, error: checked.error };
       }
 
-      entries.push({
-        name: body.name,
-        timeMs: body.timeMs,
+      getStorage().usedSessions.add(session.nonce, session.expiresAt);
+
+      const startedOn = new Date(session.startedAt).toISOString().split("T")[0];
+      const board: LeaderboardBoard = startedOn === session.date ? "daily" : "archive";
+
+      const replayId = crypto.randomUUID();
+      getStorage().replays.save({
+        id: replayId,
+        name: player.name,
+        puzzle,
+        replay: body.replay,
+        timeMs,
+        source: { type: board, date: session.date },
+        createdAt: finishedAt,
       });
 
-      // Keep only top 50
-      entries.sort((a, b) => a.timeMs - b.timeMs);
-      if (entries.length > 50) entries.length = 50;
+      // Storage keeps only the top 50
+      getStorage().leaderboards.add(
+        {
+          name: player.name,
+          timeMs,
+          date: session.date,
+          replayId,
+          playerId: player.id,
+          hintsUsed,
+        },
+        board,
+      );
+      getStorage().solves.add({ playerId: player.id, date: session.date, board, difficulty: puzzle.difficulty, rows: puzzle.rows, cols: puzzle.cols, timeMs, solvedAt: finishedAt });
 
-      return { success: true };
+      return { success: true, timeMs, hintsUsed, replayId, board };
     },
     {
       body: t.Object({
-        name: t.String(),
-        timeMs: t.Number(),
-        path: t.Array(
-          t.Object({
-            row: t.Number(),
-            col: t.Number(),
-          }),
-        ),
+        token: t.String(),
+        path: t.Array(cellSchema),
+        replay: t.String(),
+        finishToken: t.Optional(t.String()),
+      }),
+    },
+  )
+
+  // GET /api/player/:id/stats — streaks, solve counts and times across all of a player's dailies
+  .get(
+    "/player/:id/stats",
+    ({ params, set }) => {
+      const { players, solves } = getStorage();
+      const player = players.get(params.id);
+      if (!player) {
+        set.status = 404;
+        return { error: "Player not found" };
+      }
+      return {
+        player: { id: player.id, name: player.name },
+        stats: computePlayerStats(solves.listByPlayer(player.id), getTodayStr()),
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
       }),
     },
   )
@@ -118,43 +439,56 @@ export const app = new Elysia({ prefix: "/api" })
     app
       .post(
         "/create",
-        ({ body }) => {
-          return RoomManager.createRoom(body.hostName, body.levelCount);
+        ({ body, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const settings = toRoomSettings(body);
+          if (isRoomActionError(settings)) {
+            set.status = ROOM_ERROR_STATUS[settings.code];
+            return { error: settings.error };
+          }
+          const { room, player: hostPlayer } = RoomManager.createRoom(player, settings);
+          return { room: toRoomSummary(room), player: hostPlayer };
         },
         {
-          body: t.Object({
-            hostName: t.String(),
-            levelCount: t.Union([t.Literal(3), t.Literal(5), t.Literal(10)]),
-          }),
+          body: roomSettingsSchema,
         },
       )
       .post(
         "/join",
-        ({ body, set }) => {
-          const result = RoomManager.joinRoom(body.roomId, body.playerName);
+        ({ body, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const result = RoomManager.joinRoom(body.roomId, player);
           if (!result) {
             set.status = 404;
-            return { error: "Room not found or game already started" };
+            return { error: "Room not found, locked or game already started" };
           }
-          return result;
+          // Summaries only — the levels are revealed as players reach them
+          return { room: toRoomSummary(result.room), player: result.player };
         },
         {
           body: t.Object({
             roomId: t.String(),
-            playerName: t.String(),
           }),
         },
       )
       .get(
         "/:id",
-        ({ params, query, set }) => {
+        ({ params, query, player, set }) => {
           const room = RoomManager.getRoom(params.id);
           if (!room) {
             set.status = 404;
             return { error: "Room not found" };
           }
+          // Levels the caller has not reached yet come back as null
           const includeLevels = query?.includeLevels === "1" || query?.includeLevels === "true";
-          return includeLevels ? room : toRoomSummary(room);
+          const summary = toRoomSummary(room);
+          return includeLevels ? { ...summary, levels: visibleLevels(room, player?.id) } : summary;
         },
         {
           params: t.Object({
@@ -167,10 +501,37 @@ export const app = new Elysia({ prefix: "/api" })
           ),
         },
       )
+      // GET /api/room/:id/level/:index — one level, once the caller has reached it
+      .get(
+        "/:id/level/:index",
+        ({ params, player, set }) => {
+          const room = RoomManager.getRoom(params.id);
+          const level = room?.levels[params.index];
+          if (!room || !level) {
+            set.status = 404;
+            return { error: "Room/level not found" };
+          }
+          if (!canSeeLevel(room, player?.id, params.index)) {
+            set.status = 403;
+            return { error: "You have not reached this level yet" };
+          }
+          return level;
+        },
+        {
+          params: t.Object({
+            id: t.String(),
+            index: t.Numeric({ minimum: 0 }),
+          }),
+        },
+      )
       .post(
         "/:id/start",
-        ({ params, body, set }) => {
-          const success = RoomManager.startGame(params.id, body.hostId);
+        async ({ params, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const success = await RoomManager.startGame(params.id, player.id);
           if (!success) {
             set.status = 403;
             return { error: "Only host can start or room not found" };
@@ -179,24 +540,199 @@ export const app = new Elysia({ prefix: "/api" })
         },
         {
           params: t.Object({ id: t.String() }),
-          body: t.Object({ hostId: t.String() }),
         },
       )
       .post(
-        "/:id/progress",
-        ({ params, body, set }) => {
-          const room = RoomManager.submitProgress(params.id, body.playerId, body.levelIndex);
+        "/:id/settings",
+        ({ params, body, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const settings = toRoomSettings(body);
+          if (isRoomActionError(settings)) {
+            set.status = ROOM_ERROR_STATUS[settings.code];
+            return { error: settings.error };
+          }
+          const success = RoomManager.updateSettings(params.id, player.id, settings);
+          if (!success) {
+            set.status = 403;
+            return { error: "Only the host can change settings before the game starts, and not below the current player count" };
+          }
+          return { success: true };
+        },
+        {
+          params: t.Object({ id: t.String() }),
+          body: roomSettingsSchema,
+        },
+      )
+      .post(
+        "/:id/skip",
+        ({ params, body, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const room = RoomManager.skipLevel(params.id, player.id, body.levelIndex);
           if (!room) {
-            set.status = 404;
-            return { error: "Room/Player not found" };
+            set.status = 409;
+            return { error: "That level is not out of time" };
+          }
+          return toRoomSummary(room);
+        },
+        {
+          params: t.Object({ id: t.String() }),
+          body: t.Object({ levelIndex: t.Number() }),
+        },
+      )
+      .get(
+        "/:id/draft",
+        ({ params, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          return { draft: RoomManager.getDraft(params.id, player.id) };
+        },
+        {
+          params: t.Object({ id: t.String() }),
+        },
+      )
+      .post(
+        "/:id/draft",
+        ({ params, body, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const failure = saveRoomDraft(params.id, player.id, body);
+          if (failure) {
+            set.status = ROOM_ERROR_STATUS[failure.code];
+            return { error: failure.error };
+          }
+          return { success: true };
+        },
+        {
+          params: t.Object({ id: t.String() }),
+          body: t.Object({
+            levelIndex: t.Number(),
+            path: t.Array(cellSchema),
+            replay: t.String(),
+          }),
+        },
+      )
+      .post(
+        "/:id/rematch",
+        ({ params, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const room = RoomManager.rematch(params.id, player.id);
+          if (!room) {
+            set.status = 409;
+            return { error: "Only players from a finished room can start a rematch" };
+          }
+          return toRoomSummary(room);
+        },
+        {
+          params: t.Object({ id: t.String() }),
+        },
+      )
+      .post(
+        "/:id/kick",
+        ({ params, body, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const success = RoomManager.kickPlayer(params.id, player.id, body.playerId);
+          if (!success) {
+            set.status = 403;
+            return { error: "Only the host can kick players before the game starts" };
+          }
+          return { success: true };
+        },
+        {
+          params: t.Object({ id: t.String() }),
+          body: t.Object({ playerId: t.String() }),
+        },
+      )
+      .post(
+        "/:id/transfer-host",
+        ({ params, body, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const success = RoomManager.transferHost(params.id, player.id, body.playerId);
+          if (!success) {
+            set.status = 403;
+            return { error: "Only the host can hand over the room, and only to another player in it" };
+          }
+          return { success: true };
+        },
+        {
+          params: t.Object({ id: t.String() }),
+          body: t.Object({ playerId: t.String() }),
+        },
+      )
+      .post(
+        "/:id/lock",
+        ({ params, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const success = RoomManager.lockRoom(params.id, player.id);
+          if (!success) {
+            set.status = 403;
+            return { error: "Only the host can lock the room before the game starts" };
+          }
+          return { success: true };
+        },
+        {
+          params: t.Object({ id: t.String() }),
+        },
+      )
+      .post(
+        "/:id/unlock",
+        ({ params, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const success = RoomManager.unlockRoom(params.id, player.id);
+          if (!success) {
+            set.status = 403;
+            return { error: "Only the host can unlock the room before the game starts" };
+          }
+          return { success: true };
+        },
+        {
+          params: t.Object({ id: t.String() }),
+        },
+      )
+      .post(
+        "/:id/progress",
+        ({ params, body, player, set }) => {
+          if (!player) {
+            set.status = 401;
+            return { error: SIGNED_OUT_ERROR };
+          }
+          const room = submitRoomProgress(params.id, player.id, body);
+          if (isRoomActionError(room)) {
+            set.status = ROOM_ERROR_STATUS[room.code];
+            return { error: room.error, reason: room.reason };
           }
           return toRoomSummary(room);
         },
         {
           params: t.Object({ id: t.String() }),
           body: t.Object({
-            playerId: t.String(),
             levelIndex: t.Number(),
+            path: t.Array(cellSchema),
+            replay: t.String(),
           }),
         },
       ),
@@ -0,0 +1,48 @@
+/**
+ * Anonymous accounts — a server-issued player id plus a secret, both kept in an HttpOnly cookie.
+ *
+ * The cookie value is `<playerId>.<secret>`. Only a SHA-256 hash of the secret is
+ * stored on the player record, so a leaked store does not let anyone sign in.
+ */
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { getStorage, type PlayerRecord } from "./storage";
+
+export const PLAYER_COOKIE = "zip_player";
+export const PLAYER_COOKIE_MAX_AGE_S = 400 * 24 * 60 * 60; // The longest browsers allow
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+/** Create a new account — returns the record and the cookie value to hand back to the browser */
+export function createAccount(name: string): { player: PlayerRecord; cookieValue: string } {
+  const secret = randomBytes(24).toString("base64url");
+  const now = Date.now();
+  const player: PlayerRecord = { id: randomUUID(), name, createdAt: now, lastSeenAt: now, secretHash: hashSecret(secret) };
+  getStorage().players.save(player);
+  return { player, cookieValue: `${player.id}.${secret}` };
+}
+
+/** The account a cookie value belongs to, or null if it is missing, malformed or the secret does not match */
+export function resolvePlayer(cookieValue: string | undefined): PlayerRecord | null {
+  if (!cookieValue) return null;
+  const [id, secret] = cookieValue.split(".");
+  if (!id || !secret) return null;
+
+  const player = getStorage().players.get(id);
+  if (!player?.secretHash) return null;
+
+  const expected = Buffer.from(player.secretHash, "hex");
+  const actual = Buffer.from(hashSecret(secret), "hex");
+  return timingSafeEqual(expected, actual) ? player : null;
+}
+
+/** Read our cookie out of a raw `Cookie` header (for WebSocket upgrades, which skip Elysia) */
+export function readPlayerCookie(header: string | undefined): string | undefined {
+  for (const part of (header ?? "").split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === PLAYER_COOKIE) return decodeURIComponent(rest.join("="));
+  }
+  return undefined;
+}
@@ -0,0 +1,51 @@
+/**
+ * Builds room levels on a worker thread (server/level-worker.ts). A full set
+ * of hard levels takes several seconds of CPU — on the main thread that would
+ * hold up every socket and request until it was done.
+ */
+
+import { join } from "path";
+import { Worker } from "worker_threads";
+import type { Puzzle } from "../engine/types";
+import type { RoomSettings } from "./room-manager";
+
+// Longest one build may run before it is given up — the most levels at "hard" take around 10s on one core
+export const LEVEL_BUILD_TIMEOUT_MS = 60_000;
+
+// Workers do not inherit the tsx loader the server runs under, so the worker registers it before loading its entry
+const WORKER_SOURCE = `require("tsx/cjs/api").register(); require(${JSON.stringify(join(__dirname, "level-worker.ts"))});`;
+
+// One build at a time — rooms started together queue up instead of splitting the CPU between them
+let queue: Promise<unknown> = Promise.resolve();
+
+function runWorker(levelSeed: string, settings: RoomSettings): Promise<Puzzle[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, { eval: true, workerData: { levelSeed, settings } });
+    const timer = setTimeout(() => {
+      reject(new Error(`Level build took longer than ${LEVEL_BUILD_TIMEOUT_MS}ms`));
+      void worker.terminate();
+    }, LEVEL_BUILD_TIMEOUT_MS);
+
+    // Whichever comes first settles the build — the rest are no-ops
+    worker.once("message", (levels: Puzzle[]) => {
+      clearTimeout(timer);
+      resolve(levels);
+      void worker.terminate();
+    });
+    worker.once("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    worker.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Level worker exited with code ${code}`));
+    });
+  });
+}
+
+/** The room's levels (server/room-levels.ts), built off the main thread — rejects if the build fails or runs out of time */
+export function buildRoomLevels(levelSeed: string, settings: RoomSettings): Promise<Puzzle[]> {
+  const build = queue.then(() => runWorker(levelSeed, settings));
+  queue = build.catch(() => undefined);
+  return build;
+}
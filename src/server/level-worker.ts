@@ -0,0 +1,9 @@
+/**
+ * Worker thread entry for server/level-builder.ts — builds one room's levels
+ * and posts them back.
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { buildLevels } from "./room-levels";
+
+parentPort!.postMessage(buildLevels(workerData.levelSeed, workerData.settings));
@@ -0,0 +1,110 @@
+/**
+ * Player statistics — derived on read from a player's solve history, so
+ * changing a rule here applies to past solves too.
+ */
+
+import type { Puzzle } from "../engine/types";
+import type { SolveRecord } from "./storage";
+
+// Upper bounds (seconds) of the solve-time histogram buckets; the last bucket is open-ended
+export const HISTOGRAM_BOUNDS_S = [15, 30, 45, 60, 90, 120, 180, 300];
+
+export interface GridSizeStats {
+  size: string; // "{cols}x{rows}", as shown in GameHeader
+  solves: number;
+  bestMs: number;
+  averageMs: number;
+}
+
+export interface HistogramBucket {
+  minS: number;
+  maxS: number | null; // null for the open-ended last bucket
+  count: number;
+}
+
+export interface PlayerStats {
+  totalSolves: number;
+  currentStreak: number; // Consecutive days solved on the day, ending today (or yesterday if today is still open)
+  longestStreak: number;
+  solvesByDifficulty: Record<Puzzle["difficulty"], number>;
+  gridSizes: GridSizeStats[];
+  histogram: HistogramBucket[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+/** Current and longest run of consecutive days with a same-day solve */
+function computeStreaks(solves: SolveRecord[], today: string): { current: number; longest: number } {
+  const days = [...new Set(solves.filter((s) => s.board === "daily").map((s) => dayNumber(s.date)))].sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  // The streak is still alive if the last solved day is today or yesterday
+  const last = days[days.length - 1];
+  const current = last !== undefined && dayNumber(today) - last <= 1 ? run : 0;
+  return { current, longest };
+}
+
+function buildHistogram(solves: SolveRecord[]): HistogramBucket[] {
+  const buckets: HistogramBucket[] = HISTOGRAM_BOUNDS_S.map((maxS, i) => ({ minS: i === 0 ? 0 : HISTOGRAM_BOUNDS_S[i - 1], maxS, count: 0 }));
+  buckets.push({ minS: HISTOGRAM_BOUNDS_S[HISTOGRAM_BOUNDS_S.length - 1], maxS: null, count: 0 });
+
+  for (const solve of solves) {
+    const seconds = solve.timeMs / 1000;
+    const index = HISTOGRAM_BOUNDS_S.findIndex((maxS) => seconds < maxS);
+    buckets[index === -1 ? buckets.length - 1 : index].count++;
+  }
+  return buckets;
+}
+
+/** Only a player's first solve of each date counts — replaying a daily (e.g. from the archive) adds nothing */
+function firstSolvePerDate(solves: SolveRecord[]): SolveRecord[] {
+  const seen = new Set<string>();
+  return [...solves]
+    .sort((a, b) => a.solvedAt - b.solvedAt)
+    .filter((solve) => {
+      if (seen.has(solve.date)) return false;
+      seen.add(solve.date);
+      return true;
+    });
+}
+
+export function computePlayerStats(allSolves: SolveRecord[], today: string): PlayerStats {
+  const solves = firstSolvePerDate(allSolves);
+  const solvesByDifficulty: PlayerStats["solvesByDifficulty"] = { easy: 0, medium: 0, hard: 0 };
+  const bySize = new Map<string, SolveRecord[]>();
+  for (const solve of solves) {
+    solvesByDifficulty[solve.difficulty]++;
+    const size = `${solve.cols}x${solve.rows}`;
+    bySize.set(size, [...(bySize.get(size) ?? []), solve]);
+  }
+
+  const gridSizes = [...bySize.entries()]
+    .map(([size, group]) => ({
+      size,
+      solves: group.length,
+      bestMs: Math.min(...group.map((s) => s.timeMs)),
+      averageMs: Math.round(group.reduce((sum, s) => sum + s.timeMs, 0) / group.length),
+    }))
+    .sort((a, b) => a.size.localeCompare(b.size, undefined, { numeric: true }));
+
+  const { current, longest } = computeStreaks(solves, today);
+
+  return {
+    totalSolves: solves.length,
+    currentStreak: current,
+    longestStreak: longest,
+    solvesByDifficulty,
+    gridSizes,
+    histogram: buildHistogram(solves),
+  };
+}
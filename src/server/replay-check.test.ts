@@ -0,0 +1,57 @@
+/**
+ * Replay check tests — what the server accepts as a genuine run, and the
+ * reason it gives for each submission it rejects.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { encodeReplay } from "../engine/replay";
+import type { Cell, Puzzle, ReplayMove } from "../engine/types";
+import { checkReplay, REPLAY_CLOCK_SLACK_MS } from "./replay-check";
+import { minSolveTimeMs } from "./session-token";
+
+// 2×2 whose only solution runs clockwise from the top left
+const puzzle: Puzzle = {
+  id: "replay-check-test",
+  rows: 2,
+  cols: 2,
+  anchors: [
+    { row: 0, col: 0, number: 1 },
+    { row: 0, col: 1, number: 2 },
+    { row: 1, col: 0, number: 3 },
+  ],
+  date: "2026-10-19",
+  difficulty: "easy",
+  difficultyScore: 10,
+  verifiedUnique: true,
+};
+const solution: Cell[] = [
+  { row: 0, col: 0 },
+  { row: 0, col: 1 },
+  { row: 1, col: 1 },
+  { row: 1, col: 0 },
+];
+
+/** Extend through `path`, one move every `stepMs` */
+const drawn = (path: Cell[], stepMs: number): ReplayMove[] => path.map((cell, i) => ({ type: "extend", t: (i + 1) * stepMs, cell }));
+
+test("a genuine run passes with the replay's duration", () => {
+  const replay = encodeReplay(drawn(solution, 300));
+  assert.deepEqual(checkReplay(replay, puzzle, solution, 1500), { durationMs: 1200 });
+  assert.deepEqual(checkReplay(replay, puzzle, solution, 1200 - REPLAY_CLOCK_SLACK_MS), { durationMs: 1200 });
+});
+
+test("submitted runs are rejected with a reason", () => {
+  const reason = (replay: string, path: Cell[], serverElapsedMs = 60_000) => {
+    const checked = checkReplay(replay, puzzle, path, serverElapsedMs);
+    return "reason" in checked ? checked.reason : null;
+  };
+  const replay = encodeReplay(drawn(solution, 300));
+
+  assert.equal(reason("not a replay", solution), "MALFORMED_REPLAY");
+  assert.equal(reason(encodeReplay([{ type: "extend", t: 0, cell: { row: 1, col: 1 } }]), solution), "INVALID_REPLAY");
+  assert.equal(reason(replay, solution.slice(0, 3)), "PATH_MISMATCH");
+  assert.equal(reason(encodeReplay(drawn(solution.slice(0, 3), 300)), solution.slice(0, 3)), "INVALID_SOLUTION");
+  assert.equal(reason(encodeReplay(drawn(solution, minSolveTimeMs(4) / 4 - 1)), solution), "TOO_FAST");
+  assert.equal(reason(replay, solution, 1200 - REPLAY_CLOCK_SLACK_MS - 1), "CLOCK_MISMATCH");
+});
@@ -0,0 +1,56 @@
+/**
+ * Server-side checks on submitted replays — shared by the leaderboard and room routes and the room hub.
+ */
+
+import { countOpenCells } from "../engine/grid";
+import { decodeReplay, replayMoves } from "../engine/replay";
+import type { Cell, Puzzle } from "../engine/types";
+import { validatePath } from "../engine/validator";
+import { minSolveTimeMs } from "./session-token";
+
+/** Why a submitted run was turned down */
+export type ReplayRejectionReason =
+  | "MALFORMED_REPLAY" // Could not be decoded
+  | "INVALID_REPLAY" // A move breaks the rules
+  | "PATH_MISMATCH" // Replay ends somewhere other than the submitted path
+  | "INVALID_SOLUTION" // Path does not solve the puzzle
+  | "TOO_FAST" // Quicker than anyone could draw it
+  | "CLOCK_MISMATCH"; // Claims more time than the server measured
+
+export interface ReplayRejection {
+  reason: ReplayRejectionReason;
+  error: string;
+}
+
+// How much longer a replay may claim to have taken than the server measured (client/server clock drift)
+export const REPLAY_CLOCK_SLACK_MS = 2000;
+
+/** Replay a run and check it ends on `path` — returns the replay's duration, or why it was rejected */
+export function replayToPath(encoded: string, puzzle: Puzzle, path: Cell[]): { durationMs: number } | ReplayRejection {
+  const moves = decodeReplay(encoded);
+  if (!moves) return { reason: "MALFORMED_REPLAY", error: "Malformed replay" };
+
+  const replay = replayMoves(moves, puzzle);
+  if (!replay.valid) return { reason: "INVALID_REPLAY", error: `Replay rejected. ${replay.error}` };
+  if (replay.path.length !== path.length || replay.path.some((cell, i) => cell.row !== path[i].row || cell.col !== path[i].col)) {
+    return { reason: "PATH_MISMATCH", error: "Replay does not end on the submitted path" };
+  }
+  return { durationMs: replay.durationMs };
+}
+
+/**
+ * Replay a submitted run and check it ends on `path`, which must solve the puzzle,
+ * and that its timing fits both the grid size and the time the server measured.
+ * Returns the replay's duration, or why the run does not check out.
+ */
+export function checkReplay(encoded: string, puzzle: Puzzle, path: Cell[], serverElapsedMs: number): { durationMs: number } | ReplayRejection {
+  const replay = replayToPath(encoded, puzzle, path);
+  if ("error" in replay) return replay;
+
+  const validation = validatePath(path, puzzle);
+  if (!validation.valid) return { reason: "INVALID_SOLUTION", error: `Invalid solution. ${validation.error}` };
+
+  if (replay.durationMs < minSolveTimeMs(countOpenCells(puzzle))) return { reason: "TOO_FAST", error: "Solve time is too fast" };
+  if (replay.durationMs > serverElapsedMs + REPLAY_CLOCK_SLACK_MS) return { reason: "CLOCK_MISMATCH", error: "Replay timing does not match the server clock" };
+  return { durationMs: replay.durationMs };
+}
@@ -0,0 +1,91 @@
+/**
+ * Room actions that need more than RoomManager: settings input, replay checks
+ * and saved replays. The `/api/room` routes and the room hub both use these, so
+ * they answer the same way. Failures carry a protocol error code (lib/room-protocol.ts).
+ */
+
+import type { Cell } from "../engine/types";
+import type { ProgressRejectionReason, RoomErrorCode, RoomSettingsInput } from "../lib/room-protocol";
+import { checkReplay, replayToPath } from "./replay-check";
+import { DEFAULT_ROOM_SETTINGS, DEFAULT_SPRINT_DURATION_S, RoomManager, type LevelDraft, type Room, type RoomSettings } from "./room-manager";
+import { getStorage } from "./storage";
+
+export interface RoomActionError {
+  code: RoomErrorCode;
+  error: string;
+  reason?: ProgressRejectionReason; // Set when a progress submission is turned down
+}
+
+export interface RoomRunInput {
+  levelIndex: number;
+  path: Cell[];
+  replay: string;
+}
+
+export function isRoomActionError(value: unknown): value is RoomActionError {
+  return typeof value === "object" && value !== null && "code" in value && "error" in value;
+}
+
+/** Fill in defaults for a settings body — fails if the per-level difficulties do not match the level count */
+export function toRoomSettings(input: RoomSettingsInput): RoomSettings | RoomActionError {
+  if (input.difficulties && input.difficulties.length !== input.levelCount) {
+    return { code: "BAD_REQUEST", error: `Expected ${input.levelCount} level difficulties, got ${input.difficulties.length}` };
+  }
+  const mode = input.mode ?? DEFAULT_ROOM_SETTINGS.mode;
+  return {
+    mode,
+    sprintDurationS: mode === "sprint" ? (input.sprintDurationS ?? DEFAULT_SPRINT_DURATION_S) : undefined,
+    levelCount: input.levelCount,
+    curve: input.curve ?? DEFAULT_ROOM_SETTINGS.curve,
+    difficulties: input.difficulties,
+    maxPlayers: input.maxPlayers ?? DEFAULT_ROOM_SETTINGS.maxPlayers,
+    levelTimeLimitS: input.levelTimeLimitS,
+    dailyAsFirstLevel: input.dailyAsFirstLevel ?? DEFAULT_ROOM_SETTINGS.dailyAsFirstLevel,
+  };
+}
+
+/** Check a solved level's replay, save it and move the player on */
+export function submitRoomProgress(roomId: string, playerId: string, run: RoomRunInput): Room | RoomActionError {
+  const current = RoomManager.getRoom(roomId);
+  const roomPlayer = current?.players.find((p) => p.id === playerId);
+  if (!current || !roomPlayer) return { code: "NOT_FOUND", error: "Room/Player not found" };
+
+  const level = current.levels[run.levelIndex];
+  if (!level || current.status !== "playing" || current.startedAt === undefined) return { code: "CONFLICT", reason: "NOT_IN_PLAY", error: "Level is not in play" };
+  if (roomPlayer.finished || roomPlayer.currentLevel !== run.levelIndex) {
+    return { code: "CONFLICT", reason: "WRONG_LEVEL", error: roomPlayer.finished ? "You have already finished" : `You are on level ${roomPlayer.currentLevel + 1}` };
+  }
+  if (RoomManager.isLevelTimedOut(current, playerId)) return { code: "REJECTED", reason: "TIME_UP", error: "Time is up for this level" };
+
+  // Timed against when this player's level opened — the race start would leave later levels far too much room
+  const levelStartedAt = roomPlayer.levelStartedAt ?? current.startedAt;
+  const checked = checkReplay(run.replay, level, run.path, Date.now() - levelStartedAt);
+  if ("error" in checked) return { code: "REJECTED", reason: checked.reason, error: checked.error };
+
+  const replayId = crypto.randomUUID();
+  getStorage().replays.save({
+    id: replayId,
+    name: roomPlayer.name,
+    puzzle: level,
+    replay: run.replay,
+    timeMs: checked.durationMs,
+    source: { type: "room", roomId: current.id, levelIndex: run.levelIndex },
+    createdAt: Date.now(),
+  });
+
+  const room = RoomManager.submitProgress(roomId, playerId, run.levelIndex, replayId);
+  return room ?? { code: "NOT_FOUND", error: "Room/Player not found" };
+}
+
+/** Keep a partial run — returns null once saved */
+export function saveRoomDraft(roomId: string, playerId: string, draft: LevelDraft): RoomActionError | null {
+  const level = RoomManager.getRoom(roomId)?.levels[draft.levelIndex];
+  if (!level) return { code: "NOT_FOUND", error: "Room/level not found" };
+
+  // Only keep drafts that replay cleanly, so a resumed run can still be submitted
+  const replayed = replayToPath(draft.replay, level, draft.path);
+  if ("error" in replayed) return { code: "REJECTED", error: replayed.error };
+
+  if (!RoomManager.saveDraft(roomId, playerId, draft)) return { code: "CONFLICT", error: "That level is not in play for you" };
+  return null;
+}
@@ -1,16 +1,40 @@
 import { WebSocketServer, WebSocket } from "ws";
-import { RoomManager, toRoomSummary } from "./room-manager";
+import { Value } from "@sinclair/typebox/value";
+import { canSeeLevel, RoomManager, toRoomSummary, visibleLevels, type Room, type RoomSummary } from "./room-manager";
+import { readPlayerCookie, resolvePlayer } from "./identity";
+import { isRoomActionError, saveRoomDraft, submitRoomProgress, toRoomSettings, type RoomActionError } from "./room-actions";
+import { ROOM_PROTOCOL_VERSION } from "../lib/room-constants";
+import { clientMessageSchema, type ClientMessage, type ClientMessageType, type RoomResults, type ServerEvent } from "../lib/room-protocol";
+import { diffRoomSummary } from "../lib/room-delta";
+import type { PlayerRecord } from "./storage";
 
 type AliveWebSocket = WebSocket & { isAlive?: boolean };
-type RoomUpdateMessage = { type: "room:update"; room: ReturnType<typeof toRoomSummary> };
-type ErrorMessage = { type: "error"; error: string };
+
+// Who is on each socket and which room (if any) it has joined
+interface SocketState {
+  socket: WebSocket;
+  player: PlayerRecord;
+  roomId: string | null;
+  away: boolean; // The tab reported itself hidden
+}
+
+type HandlerOutcome<T extends ClientMessageType> = (T extends keyof RoomResults ? RoomResults[T] : object) | RoomActionError;
+type Handler<T extends ClientMessageType> = (state: SocketState, message: Extract<ClientMessage, { type: T }>) => HandlerOutcome<T> | Promise<HandlerOutcome<T>>;
+
+// The summary a room's clients last saw and its sequence number — deltas are worked out against it
+interface RoomFeed {
+  seq: number;
+  summary: RoomSummary;
+}
 
 const roomClients = new Map<string, Set<WebSocket>>();
+const roomFeeds = new Map<string, RoomFeed>();
+const socketStates = new WeakMap<WebSocket, SocketState>();
 let heartbeatTimer: NodeJS.Timeout | null = null;
 
-function sendJson(ws: WebSocket, payload: RoomUpdateMessage | ErrorMessage) {
+function sendJson(ws: WebSocket, event: ServerEvent) {
   if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify(payload));
+    ws.send(JSON.stringify({ v: ROOM_PROTOCOL_VERSION, ...event }));
   }
 }
 
@@ -29,9 +53,43 @@ function removeClient(roomId: string, ws: WebSocket) {
   clients.delete(ws);
   if (clients.size === 0) {
     roomClients.delete(roomId);
+    roomFeeds.delete(roomId);
   }
 }
 
+// Starts a room's feed at sequence 0 the first time a client needs it
+function feedFor(room: Room): RoomFeed {
+  let feed = roomFeeds.get(room.id);
+  if (!feed) {
+    feed = { seq: 0, summary: toRoomSummary(room) };
+    roomFeeds.set(room.id, feed);
+  }
+  return feed;
+}
+
+// A player is online if any of their sockets is, away if all of them are hidden
+function refreshPresence(roomId: string, playerId: string) {
+  const states = [...(roomClients.get(roomId) ?? [])].map((ws) => socketStates.get(ws)).filter((state) => state?.player.id === playerId);
+  const presence = states.length === 0 ? "disconnected" : states.every((state) => state?.away) ? "away" : "online";
+  RoomManager.setPresence(roomId, playerId, presence);
+}
+
+function subscribe(state: SocketState, roomId: string) {
+  if (state.roomId === roomId) return;
+  unsubscribe(state);
+  state.roomId = roomId;
+  registerClient(roomId, state.socket);
+  refreshPresence(roomId, state.player.id);
+}
+
+function unsubscribe(state: SocketState) {
+  if (!state.roomId) return;
+  const roomId = state.roomId;
+  state.roomId = null;
+  removeClient(roomId, state.socket);
+  refreshPresence(roomId, state.player.id);
+}
+
 export function broadcastRoomUpdate(roomId: string) {
   const room = RoomManager.getRoom(roomId);
   if (!room) return;
@@ -39,13 +97,188 @@ export function broadcastRoomUpdate(roomId: string) {
   const clients = roomClients.get(roomId);
   if (!clients || clients.size === 0) return;
 
-  const message: RoomUpdateMessage = { type: "room:update", room: toRoomSummary(room) };
-  const payload = JSON.stringify(message);
-  for (const ws of clients) {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(payload);
+  // The first client is still joining — its join answer carries the summary
+  const feed = roomFeeds.get(roomId);
+  if (!feed) {
+    feedFor(room);
+    return;
+  }
+
+  // Everyone else already has the room and only gets what changed
+  const summary = toRoomSummary(room);
+  const changes = diffRoomSummary(feed.summary, summary);
+  feed.summary = summary;
+  const event: ServerEvent | null = changes.length > 0 ? { type: "room:delta", seq: ++feed.seq, changes } : null;
+
+  for (const ws of [...clients]) {
+    const state = socketStates.get(ws);
+    if (!state || !room.players.some((p) => p.id === state.player.id)) {
+      sendJson(ws, { type: "kicked" });
+      ws.close(1008, "Removed from the room");
+      continue;
+    }
+    if (event) sendJson(ws, event);
+  }
+}
+
+function broadcast(roomId: string, event: ServerEvent) {
+  for (const ws of roomClients.get(roomId) ?? []) {
+    sendJson(ws, event);
+  }
+}
+
+// The room is gone — tell its clients and drop their sockets
+function closeExpiredRoom(roomId: string) {
+  for (const ws of roomClients.get(roomId) ?? []) {
+    sendJson(ws, { type: "room:expired" });
+    ws.close(1000, "Room expired");
+  }
+  roomClients.delete(roomId);
+  roomFeeds.delete(roomId);
+}
+
+const NOT_JOINED: RoomActionError = { code: "NOT_JOINED", error: "Join a room first" };
+
+function forbidden(error: string): RoomActionError {
+  return { code: "FORBIDDEN", error };
+}
+
+/** One handler per client message type — each returns the response result or an error */
+const handlers: { [T in ClientMessageType]: Handler<T> } = {
+  join(state, message) {
+    const room = RoomManager.getRoom(message.roomId);
+    if (!room) return { code: "NOT_FOUND", error: "Room not found" };
+    if (!room.players.some((p) => p.id === state.player.id) && !RoomManager.joinRoom(room.id, state.player)) {
+      return { code: "CONFLICT", error: "Room is locked, full or already started" };
     }
+    subscribe(state, room.id);
+    const feed = feedFor(room);
+    return {
+      room: { ...feed.summary, levels: visibleLevels(room, state.player.id) },
+      seq: feed.seq,
+      draft: RoomManager.getDraft(room.id, state.player.id),
+      chat: room.chat ?? [],
+    };
+  },
+  leave(state) {
+    if (!state.roomId) return NOT_JOINED;
+    // Unsubscribe first so the room update does not read as a kick
+    const roomId = state.roomId;
+    unsubscribe(state);
+    RoomManager.leaveRoom(roomId, state.player.id);
+    return {};
+  },
+  async start(state) {
+    if (!state.roomId) return NOT_JOINED;
+    return (await RoomManager.startGame(state.roomId, state.player.id)) ? {} : forbidden("Only host can start or room not found");
+  },
+  progress(state, message) {
+    if (!state.roomId) return NOT_JOINED;
+    const room = submitRoomProgress(state.roomId, state.player.id, message);
+    return isRoomActionError(room) ? room : { room: toRoomSummary(room) };
+  },
+  draft(state, message) {
+    if (!state.roomId) return NOT_JOINED;
+    return saveRoomDraft(state.roomId, state.player.id, { levelIndex: message.levelIndex, path: message.path, replay: message.replay }) ?? {};
+  },
+  skip(state, message) {
+    if (!state.roomId) return NOT_JOINED;
+    const room = RoomManager.skipLevel(state.roomId, state.player.id, message.levelIndex);
+    return room ? { room: toRoomSummary(room) } : { code: "CONFLICT", error: "That level is not out of time" };
+  },
+  settings(state, message) {
+    if (!state.roomId) return NOT_JOINED;
+    const settings = toRoomSettings(message.settings);
+    if (isRoomActionError(settings)) return settings;
+    return RoomManager.updateSettings(state.roomId, state.player.id, settings) ? {} : forbidden("Only the host can change settings before the game starts, and not below the current player count");
+  },
+  kick(state, message) {
+    if (!state.roomId) return NOT_JOINED;
+    return RoomManager.kickPlayer(state.roomId, state.player.id, message.playerId) ? {} : forbidden("Only the host can kick players before the game starts");
+  },
+  "transfer-host"(state, message) {
+    if (!state.roomId) return NOT_JOINED;
+    return RoomManager.transferHost(state.roomId, state.player.id, message.playerId) ? {} : forbidden("Only the host can hand over the room, and only to another player in it");
+  },
+  lock(state, message) {
+    if (!state.roomId) return NOT_JOINED;
+    const success = message.locked ? RoomManager.lockRoom(state.roomId, state.player.id) : RoomManager.unlockRoom(state.roomId, state.player.id);
+    return success ? {} : forbidden("Only the host can lock or unlock the room before the game starts");
+  },
+  rematch(state) {
+    if (!state.roomId) return NOT_JOINED;
+    const room = RoomManager.rematch(state.roomId, state.player.id);
+    return room ? { roomId: room.id } : { code: "CONFLICT", error: "Only players from a finished room can start a rematch" };
+  },
+  chat(state, message) {
+    if (!state.roomId) return NOT_JOINED;
+    const text = message.text.trim();
+    if (!text) return { code: "BAD_REQUEST", error: "Message is empty" };
+    const chat = RoomManager.addChatMessage(state.roomId, state.player.id, text);
+    if (!chat) return NOT_JOINED;
+    broadcast(state.roomId, { type: "chat", message: chat });
+    return {};
+  },
+  presence(state, message) {
+    state.away = message.away;
+    if (state.roomId) refreshPresence(state.roomId, state.player.id);
+    return {};
+  },
+  level(state, message) {
+    const room = state.roomId && RoomManager.getRoom(state.roomId);
+    if (!room) return NOT_JOINED;
+    const level = room.levels[message.levelIndex];
+    if (!level) return { code: "NOT_FOUND", error: "No such level" };
+    return canSeeLevel(room, state.player.id, message.levelIndex) ? { level } : forbidden("You have not reached this level yet");
+  },
+  snapshot(state) {
+    const room = state.roomId && RoomManager.getRoom(state.roomId);
+    if (!room) return NOT_JOINED;
+    const { seq, summary } = feedFor(room);
+    return { room: summary, seq };
+  },
+  ping() {
+    return { serverTime: Date.now() };
+  },
+};
+
+function handleMessage(ws: WebSocket, state: SocketState, raw: string) {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    sendJson(ws, { type: "error", code: "BAD_REQUEST", error: "Messages must be JSON" });
+    return;
   }
+
+  const id = typeof data === "object" && data !== null && "id" in data && typeof data.id === "string" ? data.id : undefined;
+  const reply = (outcome: object | RoomActionError) => {
+    if (isRoomActionError(outcome)) {
+      if (id) sendJson(ws, { type: "response", id, ok: false, code: outcome.code, error: outcome.error, reason: outcome.reason });
+      else sendJson(ws, { type: "error", code: outcome.code, error: outcome.error });
+    } else if (id) {
+      sendJson(ws, { type: "response", id, ok: true, result: outcome });
+    }
+  };
+
+  if (typeof data !== "object" || data === null || !("v" in data) || data.v !== ROOM_PROTOCOL_VERSION) {
+    reply({ code: "UNSUPPORTED_VERSION", error: `Expected protocol version ${ROOM_PROTOCOL_VERSION}` });
+    return;
+  }
+  if (!Value.Check(clientMessageSchema, data)) {
+    // Report against the schema for this message type — the union's own error says nothing useful
+    const schema = clientMessageSchema.anyOf.find((s) => "type" in data && s.properties.type.const === data.type);
+    const first = schema && Value.Errors(schema, data).First();
+    reply({ code: "BAD_REQUEST", error: !schema ? "Unknown message type" : first ? `${first.path}: ${first.message}` : "Invalid message" });
+    return;
+  }
+
+  const message = data as ClientMessage;
+  const handler = handlers[message.type] as Handler<ClientMessageType>;
+  const outcome = handler(state, message as never);
+  // Only `start` waits — on its levels being built
+  if (outcome instanceof Promise) void outcome.then(reply);
+  else reply(outcome);
 }
 
 function startHeartbeat(wss: WebSocketServer) {
@@ -69,6 +302,13 @@ export function attachRoomHub(wss: WebSocketServer) {
   RoomManager.onRoomUpdated((room) => {
     broadcastRoomUpdate(room.id);
   });
+  RoomManager.onRoomExpiring((room, expiresAt) => {
+    broadcast(room.id, { type: "room:expiring", expiresAt });
+  });
+  RoomManager.onRoomExpired((roomId) => {
+    closeExpiredRoom(roomId);
+  });
+  RoomManager.startExpirySweep();
 
   wss.on("connection", (ws, req) => {
     const socket = ws as AliveWebSocket;
@@ -77,28 +317,36 @@ export function attachRoomHub(wss: WebSocketServer) {
       socket.isAlive = true;
     });
 
-    const requestUrl = new URL(req.url ?? "", `http://${req.headers.host ?? "localhost"}`);
-    const roomId = requestUrl.searchParams.get("roomId");
-
-    if (!roomId) {
-      sendJson(ws, { type: "error", error: "roomId is required" });
-      ws.close(1008, "roomId is required");
+    // Who the socket belongs to comes from the account cookie
+    const player = resolvePlayer(readPlayerCookie(req.headers.cookie));
+    if (!player) {
+      sendJson(ws, { type: "error", code: "NOT_SIGNED_IN", error: "No player session — reload the home page to get one" });
+      ws.close(1008, "Not signed in");
       return;
     }
 
-    const room = RoomManager.getRoom(roomId);
-    if (!room) {
-      sendJson(ws, { type: "error", error: "Room not found" });
-      ws.close(1008, "Room not found");
-      return;
-    }
+    const state: SocketState = { socket: ws, player, roomId: null, away: false };
+    socketStates.set(ws, state);
 
-    registerClient(roomId, ws);
-    sendJson(ws, { type: "room:update", room: toRoomSummary(room) });
+    ws.on("message", (data) => {
+      handleMessage(ws, state, String(data));
+    });
 
     ws.on("close", () => {
-      removeClient(roomId, ws);
+      unsubscribe(state);
     });
+
+    // `/ws?roomId=...` is shorthand for sending a `join` first
+    const requestUrl = new URL(req.url ?? "", `http://${req.headers.host ?? "localhost"}`);
+    const roomId = requestUrl.searchParams.get("roomId");
+    if (roomId) {
+      handleMessage(ws, state, JSON.stringify({ v: ROOM_PROTOCOL_VERSION, type: "join", roomId }));
+      const room = RoomManager.getRoom(roomId);
+      if (room && state.roomId === roomId) {
+        const { seq, summary } = feedFor(room);
+        sendJson(ws, { type: "room:update", room: summary, seq });
+      }
+    }
   });
 
   wss.on("close", () => {
@@ -0,0 +1,33 @@
+/**
+ * Room level generation — which difficulty each level gets and the puzzles
+ * built from a room's secret seed. Runs on a worker thread (see
+ * server/level-builder.ts), so it must not pull in storage or the room manager.
+ */
+
+import { createHash } from "crypto";
+import { generatePuzzle } from "../engine/generator";
+import { getTodayStr } from "../engine/seeder";
+import type { Puzzle } from "../engine/types";
+import type { Difficulty, RoomSettings } from "./room-manager";
+
+/** The difficulty of each level — explicit difficulties win, otherwise the preset curve */
+export function levelDifficulties(settings: RoomSettings): Difficulty[] {
+  if (settings.difficulties) return settings.difficulties.slice(0, settings.levelCount);
+  return Array.from({ length: settings.levelCount }, (_, i) => {
+    if (settings.curve !== "ramp") return settings.curve;
+    // First ~30% easy, last ~40% hard, medium in between
+    const progress = i / settings.levelCount;
+    if (progress < 0.3) return "easy";
+    if (progress >= 0.6) return "hard";
+    return "medium";
+  });
+}
+
+export function buildLevels(levelSeed: string, settings: RoomSettings): Puzzle[] {
+  return levelDifficulties(settings).map((difficulty, i) => {
+    if (i === 0 && settings.dailyAsFirstLevel) return generatePuzzle(getTodayStr());
+    // Hashed per level: a level's id carries its seed, and that must not lead to the other levels
+    const seed = createHash("sha256").update(`${levelSeed}:${i}`).digest("hex").slice(0, 16);
+    return generatePuzzle(`room-${seed}`, difficulty);
+  });
+}
@@ -0,0 +1,156 @@
+/**
+ * RoomManager tests — building levels on start, sprint, elimination and
+ * best-of scoring, and the standings each mode produces (lib/room-ranking.ts).
+ * Uses the in-memory storage, with the clock and timers mocked so countdowns
+ * pass instantly.
+ */
+
+import { after, before, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { ROOM_LIMITS } from "../lib/room-constants";
+import { rankRoomPlayers, solvedLevelCount } from "../lib/room-ranking";
+import { DEFAULT_ROOM_SETTINGS, ROOM_COUNTDOWN_MS, RoomManager, toRoomSummary, type Room, type RoomMode, type RoomSettings } from "./room-manager";
+
+const started: Partial<Record<RoomMode, string>> = {};
+
+// A playing room for `mode` with players a, b and c — a hosts
+async function startRoom(mode: RoomMode, settings: Partial<RoomSettings> = {}): Promise<string> {
+  const { room } = RoomManager.createRoom({ id: "a", name: "A" }, { ...DEFAULT_ROOM_SETTINGS, mode, levelCount: 3, curve: "easy", ...settings });
+  RoomManager.joinRoom(room.id, { id: "b", name: "B" });
+  RoomManager.joinRoom(room.id, { id: "c", name: "C" });
+  assert.ok(await RoomManager.startGame(room.id, "a"));
+  return room.id;
+}
+
+function getRoom(mode: RoomMode): Room {
+  const room = RoomManager.getRoom(started[mode]!);
+  assert.ok(room);
+  return room;
+}
+
+// Solve each player's current level, in the order given — a second apart, so ties on time go the same way
+function solve(room: Room, ...playerIds: string[]) {
+  for (const id of playerIds) {
+    const player = room.players.find((p) => p.id === id)!;
+    RoomManager.submitProgress(room.id, id, player.currentLevel);
+    mock.timers.tick(1000);
+  }
+}
+
+const order = (room: Room) => rankRoomPlayers(room.players, room.settings.mode).map((p) => p.id);
+
+// One countdown for every room
+before(async () => {
+  mock.timers.enable({ apis: ["setTimeout", "Date"], now: Date.now() });
+  started["best-of"] = await startRoom("best-of", { levelCount: 2, levelTimeLimitS: 60 });
+  started.elimination = await startRoom("elimination");
+  started.sprint = await startRoom("sprint", { sprintDurationS: 600 }); // Outlasts the clock the other tests wind on
+  mock.timers.tick(ROOM_COUNTDOWN_MS);
+});
+
+after(() => mock.timers.reset());
+
+test("the most hard levels build without holding up the server", async () => {
+  const { room } = RoomManager.createRoom({ id: "a", name: "A" }, { ...DEFAULT_ROOM_SETTINGS, levelCount: ROOM_LIMITS.maxLevels, curve: "hard" });
+  RoomManager.joinRoom(room.id, { id: "b", name: "B" });
+
+  // The longest the event loop goes without getting to a 10ms interval while the levels build
+  let longestGapMs = 0;
+  let last = performance.now();
+  const ticker = setInterval(() => {
+    longestGapMs = Math.max(longestGapMs, performance.now() - last);
+    last = performance.now();
+  }, 10);
+
+  const starting = RoomManager.startGame(room.id, "a");
+  // The lobby is held while they build
+  assert.equal(toRoomSummary(RoomManager.getRoom(room.id)!).preparing, true);
+  assert.equal(RoomManager.updateSettings(room.id, "a", { ...room.settings, curve: "easy" }), false);
+  assert.equal(await RoomManager.startGame(room.id, "a"), false);
+
+  assert.ok(await starting);
+  clearInterval(ticker);
+
+  const current = RoomManager.getRoom(room.id)!;
+  assert.equal(current.status, "countdown");
+  assert.equal(toRoomSummary(current).preparing, false);
+  assert.deepEqual(
+    current.levels.map((level) => level.difficulty),
+    Array(ROOM_LIMITS.maxLevels).fill("hard"),
+  );
+  assert.ok(longestGapMs < 1000, `event loop blocked for ${Math.round(longestGapMs)}ms`);
+});
+
+test("best-of scores each level by finishing place", () => {
+  const room = getRoom("best-of");
+  assert.equal(room.status, "playing");
+
+  solve(room, "b", "a", "c");
+  assert.deepEqual(
+    room.players.map((p) => p.points),
+    [2, 3, 1],
+  );
+
+  // c runs out of time on the second level — a skipped level scores nothing
+  solve(room, "a", "b");
+  mock.timers.tick(60_000);
+  assert.ok(RoomManager.skipLevel(room.id, "c", 1));
+
+  assert.deepEqual(
+    room.players.map((p) => p.points),
+    [5, 5, 1],
+  );
+  assert.equal(room.status, "finished");
+  // a and b tie on points — a finished first
+  assert.deepEqual(order(room), ["a", "b", "c"]);
+});
+
+test("elimination drops the last player on each level", () => {
+  const room = getRoom("elimination");
+
+  solve(room, "a", "b");
+  const c = room.players.find((p) => p.id === "c")!;
+  assert.equal(c.eliminatedOnLevel, 0);
+  assert.equal(c.finished, true);
+  assert.equal(room.status, "playing");
+
+  // b clears level 2 first, which leaves a behind and b the last one standing
+  solve(room, "b");
+  assert.equal(room.players.find((p) => p.id === "a")!.eliminatedOnLevel, 1);
+  assert.equal(room.players.find((p) => p.id === "b")!.finished, true);
+  assert.equal(room.status, "finished");
+  assert.deepEqual(order(room), ["b", "a", "c"]);
+});
+
+test("sprint ranks by levels solved once the clock runs out", () => {
+  const room = getRoom("sprint");
+
+  solve(room, "c", "a", "b");
+  solve(room, "a");
+  assert.equal(room.status, "playing");
+
+  // Past the sprint's end — the timer ends it for everyone
+  mock.timers.tick(600_000);
+  assert.equal(room.status, "finished");
+
+  assert.deepEqual(
+    room.players.map((p) => solvedLevelCount(p)),
+    [2, 1, 1],
+  );
+  // b and c both solved one level — c got there first
+  assert.deepEqual(order(room), ["a", "c", "b"]);
+});
+
+test("timed-out levels do not count as solved", () => {
+  assert.equal(solvedLevelCount({ currentLevel: 3, finished: false, levelFinishedAt: [100, 200, 300], skippedLevels: [1] }), 2);
+  assert.deepEqual(
+    rankRoomPlayers(
+      [
+        { id: "slow", currentLevel: 2, finished: false, levelFinishedAt: [100, 200] },
+        { id: "skipper", currentLevel: 3, finished: false, levelFinishedAt: [50, 60, 70], skippedLevels: [0, 1] },
+      ],
+      "sprint",
+    ).map((p) => p.id),
+    ["slow", "skipper"],
+  );
+});
@@ -1,5 +1,8 @@
-import { generatePuzzle } from "../engine/generator";
-import type { Puzzle } from "../engine/types";
+import { randomBytes } from "crypto";
+import type { Cell, Puzzle } from "../engine/types";
+import type { ChatMessage } from "../lib/room-protocol";
+import { buildRoomLevels } from "./level-builder";
+import { getStorage, type PlayerRecord } from "./storage";
 
 export interface RoomPlayer {
   id: string;
@@ -7,60 +10,195 @@ export interface RoomPlayer {
   currentLevel: number; // 0-based index
   finished: boolean;
   finishTime?: number; // ms
+  replayIds?: string[]; // Saved replay per completed level
+  levelStartedAt?: number; // When the current level opened for this player (for the per-level time limit and replay timing)
+  skippedLevels?: number[]; // Levels that ran out of time
+  levelFinishedAt?: number[]; // Server time each level was solved or skipped, by level index
+  points?: number; // Best-of only — points won from finishing places
+  eliminatedOnLevel?: number; // Elimination only — the level they were last to clear
+  draft?: LevelDraft; // Partial run on the current level, so a reload can pick it back up (never sent in summaries)
+  presence?: PlayerPresence;
 }
 
+/** A player's unfinished path on a level, with the replay that drew it (engine/replay.ts) */
+export interface LevelDraft {
+  levelIndex: number;
+  path: Cell[];
+  replay: string;
+}
+
+/** "away" means every open tab is hidden; "disconnected" means no socket at all */
+export type PlayerPresence = "online" | "away" | "disconnected";
+
+export type Difficulty = Puzzle["difficulty"];
+
+/** Preset difficulty curves — "ramp" goes easy → medium → hard, the rest keep one difficulty throughout */
+export type DifficultyCurve = "ramp" | "easy" | "medium" | "hard";
+
+/**
+ * How a room is won:
+ * - "race": first to finish every level
+ * - "sprint": most levels solved before `sprintDurationS` runs out
+ * - "elimination": the last player to clear each level drops out, the last one standing wins
+ * - "best-of": points on each level by finishing place, most points wins
+ */
+export type RoomMode = "race" | "sprint" | "elimination" | "best-of";
+
+export interface RoomSettings {
+  mode: RoomMode;
+  sprintDurationS?: number; // Sprint only — how long the whole race runs
+  levelCount: number;
+  curve: DifficultyCurve;
+  difficulties?: Difficulty[]; // Explicit per-level difficulty; overrides `curve` when set
+  maxPlayers: number;
+  levelTimeLimitS?: number; // Unset means no limit
+  dailyAsFirstLevel: boolean; // Level 1 is today's daily puzzle instead of a room seed — public, so it is not hidden before the race like the others
+}
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  mode: "race",
+  levelCount: 5,
+  curve: "ramp",
+  maxPlayers: 10,
+  dailyAsFirstLevel: false,
+};
+
+export const DEFAULT_SPRINT_DURATION_S = 300;
+
+/** "countdown" runs from the host pressing start until `startsAt`, when the room turns "playing" */
+export type RoomStatus = "waiting" | "countdown" | "playing" | "finished";
+
 export interface Room {
   id: string;
   hostId: string;
-  levels: Puzzle[];
+  levelSeed: string; // Secret the levels are generated from — stays on the server (never in summaries)
+  levels: Puzzle[]; // Empty in the lobby — generated once, when the host starts the game
+  settings: RoomSettings;
   players: RoomPlayer[];
-  status: "waiting" | "playing" | "finished";
+  status: RoomStatus;
   createdAt: number;
-  startedAt?: number;
+  startsAt?: number; // When the countdown ends — chosen by the server when the host starts the game
+  startedAt?: number; // Set to `startsAt` once the race is on
+  locked?: boolean; // Host has closed the lobby to new players
+  kickedIds?: string[]; // Players the host removed — they cannot join again
+  lastActivityAt?: number; // Last change to the room — idle rooms expire from here
+  finishedAt?: number;
+  rematchId?: string; // The room everyone moved on to
+  chat?: ChatMessage[]; // Most recent last, capped at MAX_CHAT_HISTORY
 }
 
 export interface RoomSummary {
   id: string;
   hostId: string;
   players: RoomPlayer[];
-  status: "waiting" | "playing" | "finished";
+  status: RoomStatus;
   createdAt: number;
+  startsAt?: number;
   startedAt?: number;
+  endsAt?: number; // Sprint only
+  locked: boolean;
+  preparing: boolean; // The host pressed start and the levels are being built — settings are frozen until the countdown
   levelCount: number;
+  settings: RoomSettings;
+  expiresAt: number;
+  rematchId?: string;
+}
+
+/** When a sprint is over for everyone — other modes run until the players are done */
+export function raceEndsAt(room: Room): number | undefined {
+  if (room.settings.mode !== "sprint" || room.startsAt === undefined) return undefined;
+  return room.startsAt + (room.settings.sprintDurationS ?? DEFAULT_SPRINT_DURATION_S) * 1000;
+}
+
+/**
+ * Whether a player may see a level's layout — players only the ones they have reached, everyone once the room has finished.
+ * The host races too, so they get no head start; only a host who is not playing sees every level.
+ */
+export function canSeeLevel(room: Room, playerId: string | undefined, levelIndex: number): boolean {
+  if (room.status === "finished") return true;
+  const player = room.players.find((p) => p.id === playerId);
+  if (!player) return playerId !== undefined && playerId === room.hostId;
+  return (room.status === "countdown" || room.status === "playing") && levelIndex <= player.currentLevel;
+}
+
+/** The room's levels as a player may see them — levels not revealed to them yet are null */
+export function visibleLevels(room: Room, playerId: string | undefined): (Puzzle | null)[] {
+  return Array.from({ length: room.settings.levelCount }, (_, i) => (room.levels[i] && canSeeLevel(room, playerId, i) ? room.levels[i] : null));
 }
 
 export function toRoomSummary(room: Room): RoomSummary {
   return {
     id: room.id,
     hostId: room.hostId,
-    players: room.players.map((player) => ({ ...player })),
+    players: room.players.map((player) => {
+      const copy = { ...player };
+      delete copy.draft;
+      return copy;
+    }),
     status: room.status,
     createdAt: room.createdAt,
+    startsAt: room.startsAt,
     startedAt: room.startedAt,
-    levelCount: room.levels.length,
+    endsAt: raceEndsAt(room),
+    locked: room.locked ?? false,
+    preparing: roomStore.preparing.has(room.id),
+    levelCount: room.settings.levelCount,
+    settings: { ...room.settings },
+    expiresAt: roomExpiresAt(room),
+    rematchId: room.rematchId,
   };
 }
 
+// Rooms are deleted once idle this long, or this long after the game finishes
+export const ROOM_IDLE_TTL_MS = 30 * 60 * 1000;
+export const ROOM_FINISHED_TTL_MS = 10 * 60 * 1000;
+// How long before expiry connected clients are warned
+export const ROOM_EXPIRY_WARNING_MS = 60 * 1000;
+const ROOM_SWEEP_INTERVAL_MS = 15 * 1000;
+
+// How long the 3-2-1 countdown runs before a race starts
+export const ROOM_COUNTDOWN_MS = 3000;
+
+const MAX_CHAT_HISTORY = 50;
+
+export function roomExpiresAt(room: Room): number {
+  if (room.status === "finished") return (room.finishedAt ?? room.lastActivityAt ?? room.createdAt) + ROOM_FINISHED_TTL_MS;
+  return (room.lastActivityAt ?? room.createdAt) + ROOM_IDLE_TTL_MS;
+}
+
 type RoomListener = (room: Room) => void;
+type RoomExpiringListener = (room: Room, expiresAt: number) => void;
+type RoomExpiredListener = (roomId: string) => void;
 type RoomStore = {
-  rooms: Map<string, Room>;
   listeners: Set<RoomListener>;
+  expiringListeners: Set<RoomExpiringListener>;
+  expiredListeners: Set<RoomExpiredListener>;
+  warnedExpiry: Map<string, number>; // Room id → the expiry time clients were last warned about
+  preparing: Set<string>; // Rooms whose levels are being built for the start — not persisted, a restart just leaves them in the lobby
+  sweepTimer: NodeJS.Timeout | null;
 };
 
 const globalForRooms = globalThis as typeof globalThis & {
   __zipRoomStore?: RoomStore;
 };
 
+// Listeners are shared across module instances in dev; rooms themselves live in storage
 const roomStore: RoomStore =
   globalForRooms.__zipRoomStore ??
   (globalForRooms.__zipRoomStore = {
-    rooms: new Map<string, Room>(),
     listeners: new Set<RoomListener>(),
+    expiringListeners: new Set<RoomExpiringListener>(),
+    expiredListeners: new Set<RoomExpiredListener>(),
+    warnedExpiry: new Map<string, number>(),
+    preparing: new Set<string>(),
+    sweepTimer: null,
   });
 
-// In-memory store (shared across module instances in dev)
-const rooms = roomStore.rooms;
 const roomListeners = roomStore.listeners;
+const rooms = getStorage().rooms;
+
+/** The account a room player is created from (see server/identity.ts) */
+export type RoomMember = Pick<PlayerRecord, "id" | "name">;
 
 function emitRoomUpdate(room: Room) {
   for (const listener of roomListeners) {
@@ -68,6 +206,139 @@ function emitRoomUpdate(room: Room) {
   }
 }
 
+// Persist a change, push it to listeners and push back the room's idle expiry
+function commitRoom(room: Room) {
+  room.lastActivityAt = Date.now();
+  rooms.save(room);
+  emitRoomUpdate(room);
+}
+
+// Host only, in the lobby
+function setRoomLocked(roomId: string, hostPlayerId: string, locked: boolean): boolean {
+  const room = rooms.get(roomId);
+  if (!room || room.hostId !== hostPlayerId || room.status !== "waiting") return false;
+
+  if ((room.locked ?? false) !== locked) {
+    room.locked = locked;
+    commitRoom(room);
+  }
+  return true;
+}
+
+// A fresh secret per room — seeding from the room code would let anyone who knows it rebuild the levels offline
+function newLevelSeed(): string {
+  return randomBytes(16).toString("hex");
+}
+
+function isSprintOver(room: Room, now = Date.now()): boolean {
+  const endsAt = raceEndsAt(room);
+  return endsAt !== undefined && now >= endsAt;
+}
+
+function hasLevelTimedOut(room: Room, player: RoomPlayer, now = Date.now()): boolean {
+  if (isSprintOver(room, now)) return true; // A sprint's clock covers every level
+  const limitS = room.settings.levelTimeLimitS;
+  if (!limitS || player.levelStartedAt === undefined) return false;
+  return now - player.levelStartedAt >= limitS * 1000;
+}
+
+// Best-of: the first to solve a level gets a point per player, the next one less, and so on — a skipped level scores nothing
+function levelPoints(room: Room, player: RoomPlayer, levelIndex: number): number {
+  if (player.skippedLevels?.includes(levelIndex)) return 0;
+  const solvedBefore = room.players.filter((p) => p !== player && p.levelFinishedAt?.[levelIndex] !== undefined && !p.skippedLevels?.includes(levelIndex));
+  return room.players.length - solvedBefore.length;
+}
+
+// Elimination: once everyone else still in has cleared a level, the player left on it drops out
+function eliminateSlowest(room: Room, levelIndex: number, now: number) {
+  const remaining = room.players.filter((p) => p.eliminatedOnLevel === undefined);
+  if (remaining.length < 2) return;
+  const behind = remaining.filter((p) => p.levelFinishedAt?.[levelIndex] === undefined);
+  if (behind.length !== 1) return;
+
+  const [slowest] = behind;
+  slowest.eliminatedOnLevel = levelIndex;
+  slowest.finished = true;
+  slowest.draft = undefined;
+
+  // The last one standing wins there and then
+  const survivors = remaining.filter((p) => p !== slowest);
+  if (survivors.length === 1 && !survivors[0].finished) {
+    survivors[0].finished = true;
+    survivors[0].finishTime = now;
+  }
+}
+
+// Moves a player on to their next level (or finishes them), then applies the room mode's rules for that level
+function advancePlayer(room: Room, player: RoomPlayer) {
+  const now = Date.now();
+  const levelIndex = player.currentLevel;
+  (player.levelFinishedAt ??= [])[levelIndex] = now;
+  if (room.settings.mode === "best-of") player.points = (player.points ?? 0) + levelPoints(room, player, levelIndex);
+  player.currentLevel += 1;
+  player.levelStartedAt = now;
+  player.draft = undefined;
+  if (player.currentLevel >= room.levels.length) {
+    player.finished = true;
+    player.finishTime = now;
+  }
+  if (room.settings.mode === "elimination") eliminateSlowest(room, levelIndex, now);
+  if (room.players.every((p) => p.finished)) {
+    room.status = "finished";
+    room.finishedAt = now;
+  }
+}
+
+// Delete a room and tell listeners it is gone
+function removeRoom(roomId: string) {
+  rooms.delete(roomId);
+  roomStore.warnedExpiry.delete(roomId);
+  for (const listener of roomStore.expiredListeners) listener(roomId);
+}
+
+// A sprint ends for everyone at once, wherever they are
+function endSprint(room: Room) {
+  const now = Date.now();
+  room.status = "finished";
+  room.finishedAt = now;
+  for (const player of room.players) player.draft = undefined;
+  commitRoom(room);
+}
+
+// The countdown is over — open the first level for everyone
+function beginRace(room: Room) {
+  room.status = "playing";
+  room.startedAt = room.startsAt;
+  commitRoom(room);
+
+  const endsAt = raceEndsAt(room);
+  if (endsAt === undefined) return;
+  setTimeout(
+    () => {
+      const current = rooms.get(room.id);
+      if (current?.status === "playing") endSprint(current);
+    },
+    Math.max(0, endsAt - Date.now()),
+  ).unref();
+}
+
+/** Start races whose countdown is over, end sprints whose time is up, warn about rooms close to expiry and delete the ones past it */
+function sweepRooms(now = Date.now()) {
+  for (const room of rooms.list()) {
+    // Catches countdowns whose timer was lost (e.g. to a restart)
+    if (room.status === "countdown" && room.startsAt !== undefined && now >= room.startsAt) beginRace(room);
+    if (room.status === "playing" && isSprintOver(room, now)) endSprint(room);
+
+    const expiresAt = roomExpiresAt(room);
+    if (now >= expiresAt) {
+      removeRoom(room.id);
+    } else if (expiresAt - now <= ROOM_EXPIRY_WARNING_MS && roomStore.warnedExpiry.get(room.id) !== expiresAt) {
+      roomStore.warnedExpiry.set(room.id, expiresAt);
+      for (const listener of roomStore.expiringListeners) listener(room, expiresAt);
+    }
+  }
+}
+
 // Helper to generate a short 6-character room code
 function generateRoomCode(): string {
   const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
@@ -89,29 +360,29 @@ export const RoomManager = {
     return () => roomListeners.delete(listener);
   },
 
-  createRoom(hostName: string, levelCount: 3 | 5 | 10): { room: Room; player: RoomPlayer } {
-    const roomId = generateRoomCode();
+  onRoomExpiring(listener: RoomExpiringListener) {
+    roomStore.expiringListeners.add(listener);
+    return () => roomStore.expiringListeners.delete(listener);
+  },
 
-    // Generate unique puzzles for this room
-    const levels: Puzzle[] = [];
-    for (let i = 0; i < levelCount; i++) {
-      // Difficulty curve: 1st/2nd easy, middle medium, last hard
-      // For 3 levels: E, M, H
-      // For 5: E, E, M, M, H
-      // For 10: E... M... H...
-      let difficulty: "easy" | "medium" | "hard" = "medium";
-      const progress = i / levelCount;
-      if (progress < 0.3) difficulty = "easy";
-      else if (progress >= 0.6) difficulty = "hard";
-
-      const seed = `room-${roomId}-lvl-${i}`;
-      const puzzle = generatePuzzle(seed, difficulty);
-      levels.push(puzzle);
-    }
+  onRoomExpired(listener: RoomExpiredListener) {
+    roomStore.expiredListeners.add(listener);
+    return () => roomStore.expiredListeners.delete(listener);
+  },
+
+  /** Start the periodic expiry sweep (once per process) */
+  startExpirySweep() {
+    if (roomStore.sweepTimer) return;
+    roomStore.sweepTimer = setInterval(() => sweepRooms(), ROOM_SWEEP_INTERVAL_MS);
+    roomStore.sweepTimer.unref();
+  },
+
+  createRoom(host: RoomMember, settings: RoomSettings): { room: Room; player: RoomPlayer } {
+    const roomId = generateRoomCode();
 
     const hostPlayer: RoomPlayer = {
-      id: crypto.randomUUID(),
-      name: hostName,
+      id: host.id,
+      name: host.name,
       currentLevel: 0,
       finished: false,
     };
@@ -119,77 +390,268 @@ export const RoomManager = {
     const room: Room = {
       id: roomId,
       hostId: hostPlayer.id,
-      levels,
+      levelSeed: newLevelSeed(),
+      levels: [],
+      settings,
       players: [hostPlayer],
       status: "waiting",
       createdAt: Date.now(),
     };
 
-    rooms.set(roomId, room);
-    emitRoomUpdate(room);
+    commitRoom(room);
     return { room, player: hostPlayer };
   },
 
+  /**
+   * Leave a room. In the lobby the seat is given up: the host role passes to the
+   * next player, and a room left empty is deleted. Once the game has started the
+   * player keeps their place in the standings.
+   */
+  leaveRoom(roomId: string, playerId: string): boolean {
+    const room = rooms.get(roomId);
+    if (!room || !room.players.some((p) => p.id === playerId)) return false;
+    if (room.status !== "waiting") return true;
+
+    room.players = room.players.filter((p) => p.id !== playerId);
+    if (room.players.length === 0) {
+      removeRoom(room.id);
+      return true;
+    }
+    if (room.hostId === playerId) room.hostId = room.players[0].id;
+    commitRoom(room);
+    return true;
+  },
+
+  /** Add a chat line from a member — returns the stored message, or null if they are not in the room */
+  addChatMessage(roomId: string, playerId: string, text: string): ChatMessage | null {
+    const room = rooms.get(roomId);
+    const player = room?.players.find((p) => p.id === playerId);
+    if (!room || !player) return null;
+
+    const message: ChatMessage = { playerId, name: player.name, text, sentAt: Date.now() };
+    room.chat = [...(room.chat ?? []), message].slice(-MAX_CHAT_HISTORY);
+    room.lastActivityAt = message.sentAt;
+    rooms.save(room);
+    return message;
+  },
+
+  /**
+   * Open a new room with the same players and settings once a game is over.
+   * The first call creates it; everyone after that gets the same room.
+   */
+  rematch(roomId: string, playerId: string): Room | null {
+    const room = rooms.get(roomId);
+    if (!room || room.status !== "finished" || !room.players.some((p) => p.id === playerId)) return null;
+    if (room.rematchId) {
+      const existing = rooms.get(room.rematchId);
+      if (existing) return existing;
+    }
+
+    const rematchId = generateRoomCode();
+    const rematchRoom: Room = {
+      id: rematchId,
+      hostId: room.players.some((p) => p.id === room.hostId) ? room.hostId : playerId,
+      levelSeed: newLevelSeed(),
+      levels: [],
+      settings: { ...room.settings },
+      players: room.players.map((p) => ({ id: p.id, name: p.name, currentLevel: 0, finished: false })),
+      status: "waiting",
+      createdAt: Date.now(),
+    };
+    commitRoom(rematchRoom);
+
+    // Clients of the old room follow `rematchId` to the new one
+    room.rematchId = rematchId;
+    commitRoom(room);
+    return rematchRoom;
+  },
+
   getRoom(roomId: string): Room | undefined {
     return rooms.get(roomId);
   },
 
-  joinRoom(roomId: string, playerName: string): { room: Room; player: RoomPlayer } | null {
+  joinRoom(roomId: string, member: RoomMember): { room: Room; player: RoomPlayer } | null {
     const room = rooms.get(roomId);
-    if (!room || room.status !== "waiting") return null;
+    if (!room) return null;
+
+    // Joining again (another tab, a reload) just returns the existing seat
+    const existing = room.players.find((p) => p.id === member.id);
+    if (existing) return { room, player: existing };
+    if (room.status !== "waiting" || room.locked || room.kickedIds?.includes(member.id)) return null;
+    if (room.players.length >= room.settings.maxPlayers) return null;
 
     const player: RoomPlayer = {
-      id: crypto.randomUUID(),
-      name: playerName,
+      id: member.id,
+      name: member.name,
       currentLevel: 0,
       finished: false,
     };
 
     room.players.push(player);
-    emitRoomUpdate(room);
+    commitRoom(room);
     return { room, player };
   },
 
-  startGame(roomId: string, hostPlayerId: string): boolean {
+  /** Host only, in the lobby — builds the levels, then starts the countdown. Resolves false if the room cannot start */
+  async startGame(roomId: string, hostPlayerId: string): Promise<boolean> {
+    const room = rooms.get(roomId);
+    if (!room || room.hostId !== hostPlayerId || room.status !== "waiting" || roomStore.preparing.has(roomId)) return false;
+
+    // Built once here rather than on every lobby settings change — a full set of hard levels takes seconds,
+    // so it runs on a worker while the lobby waits, and the countdown only starts once they are ready
+    roomStore.preparing.add(roomId);
+    commitRoom(room);
+    let levels: Puzzle[] | null;
+    try {
+      levels = await buildRoomLevels(room.levelSeed, room.settings);
+    } catch (err) {
+      console.error(`Failed to build levels for room ${roomId}`, err);
+      levels = null;
+    } finally {
+      roomStore.preparing.delete(roomId);
+    }
+
+    // The room may have expired while its levels were built
+    const current = rooms.get(roomId);
+    if (!current || current.status !== "waiting") return false;
+    if (!levels) {
+      commitRoom(current);
+      return false;
+    }
+    current.levels = levels;
+
+    // Everyone gets the same future start time, so late updates do not cost anyone time
+    const startsAt = Date.now() + ROOM_COUNTDOWN_MS;
+    current.status = "countdown";
+    current.startsAt = startsAt;
+    for (const player of current.players) player.levelStartedAt = startsAt;
+    commitRoom(current);
+
+    setTimeout(() => {
+      const latest = rooms.get(roomId);
+      if (latest?.status === "countdown") beginRace(latest);
+    }, ROOM_COUNTDOWN_MS).unref();
+    return true;
+  },
+
+  /** Host only, in the lobby — replaces the settings (the levels are built from them when the game starts) */
+  updateSettings(roomId: string, hostPlayerId: string, settings: RoomSettings): boolean {
     const room = rooms.get(roomId);
-    if (!room || room.hostId !== hostPlayerId) return false;
+    if (!room || room.hostId !== hostPlayerId || room.status !== "waiting" || roomStore.preparing.has(roomId)) return false;
+    if (settings.maxPlayers < room.players.length) return false;
+
+    room.settings = settings;
+    commitRoom(room);
+    return true;
+  },
+
+  /** Moves a player past their current level once its time limit has run out */
+  skipLevel(roomId: string, playerId: string, levelIndex: number): Room | null {
+    const room = rooms.get(roomId);
+    if (!room || room.status !== "playing") return null;
+    // Nothing to skip to once a sprint is over — end it if the timer has not yet
+    if (isSprintOver(room)) {
+      endSprint(room);
+      return null;
+    }
 
-    room.status = "playing";
-    room.startedAt = Date.now();
+    const player = room.players.find((p) => p.id === playerId);
+    if (!player || player.finished || player.currentLevel !== levelIndex || !hasLevelTimedOut(room, player)) return null;
+
+    (player.skippedLevels ??= []).push(levelIndex);
+    advancePlayer(room, player);
+    commitRoom(room);
+    return room;
+  },
+
+  /** Keep a player's partial path on their current level — not broadcast, only handed back to that player */
+  saveDraft(roomId: string, playerId: string, draft: LevelDraft): boolean {
+    const room = rooms.get(roomId);
+    if (!room || room.status !== "playing") return false;
+
+    const player = room.players.find((p) => p.id === playerId);
+    if (!player || player.finished || player.currentLevel !== draft.levelIndex) return false;
+
+    // Drafts are not persisted (see RoomRepository.save) — they change every few hundred ms while a player draws
+    player.draft = draft;
+    room.lastActivityAt = Date.now();
+    return true;
+  },
+
+  /** The player's saved draft, if it is still for the level they are on */
+  getDraft(roomId: string, playerId: string): LevelDraft | null {
+    const player = rooms.get(roomId)?.players.find((p) => p.id === playerId);
+    return player?.draft && player.draft.levelIndex === player.currentLevel ? player.draft : null;
+  },
+
+  /** Connection presence from the room hub — pushed to clients but does not count as room activity */
+  setPresence(roomId: string, playerId: string, presence: PlayerPresence) {
+    const room = rooms.get(roomId);
+    const player = room?.players.find((p) => p.id === playerId);
+    if (!room || !player || player.presence === presence) return;
+
+    // Not persisted, like drafts — presence only means something to live connections
+    player.presence = presence;
     emitRoomUpdate(room);
+  },
+
+  /** True if the player's time for their current level has run out */
+  isLevelTimedOut(room: Room, playerId: string): boolean {
+    const player = room.players.find((p) => p.id === playerId);
+    return player !== undefined && hasLevelTimedOut(room, player);
+  },
+
+  /** Host only, in the lobby — removes a player and keeps them from joining again */
+  kickPlayer(roomId: string, hostPlayerId: string, targetId: string): boolean {
+    const room = rooms.get(roomId);
+    if (!room || room.hostId !== hostPlayerId || room.status !== "waiting" || targetId === hostPlayerId) return false;
+    if (!room.players.some((p) => p.id === targetId)) return false;
+
+    room.players = room.players.filter((p) => p.id !== targetId);
+    room.kickedIds = [...(room.kickedIds ?? []), targetId];
+    commitRoom(room);
     return true;
   },
 
-  submitProgress(roomId: string, playerId: string, levelIndex: number): Room | null {
+  /** Host only — hands host powers to another player in the room */
+  transferHost(roomId: string, hostPlayerId: string, targetId: string): boolean {
+    const room = rooms.get(roomId);
+    if (!room || room.hostId !== hostPlayerId || targetId === hostPlayerId) return false;
+    if (!room.players.some((p) => p.id === targetId)) return false;
+
+    room.hostId = targetId;
+    commitRoom(room);
+    return true;
+  },
+
+  /** Host only, in the lobby — stops new players joining */
+  lockRoom(roomId: string, hostPlayerId: string): boolean {
+    return setRoomLocked(roomId, hostPlayerId, true);
+  },
+
+  unlockRoom(roomId: string, hostPlayerId: string): boolean {
+    return setRoomLocked(roomId, hostPlayerId, false);
+  },
+
+  submitProgress(roomId: string, playerId: string, levelIndex: number, replayId?: string): Room | null {
     const room = rooms.get(roomId);
     if (!room) return null;
 
     const player = room.players.find((p) => p.id === playerId);
     if (!player) return null;
 
-    // Logic: if completing the current level, verify and advance
-    // We assume validation happened in `validate` endpoint before calling this?
-    // Actually, `elysia-app` should call this only after validation passes.
-
+    // The run has already been checked against the level (submitRoomProgress in server/room-actions.ts)
     // Update progress
     const prevLevel = player.currentLevel;
     const prevStatus = room.status;
 
     if (levelIndex === player.currentLevel) {
-      player.currentLevel += 1;
-      if (player.currentLevel >= room.levels.length) {
-        player.finished = true;
-        player.finishTime = Date.now();
-      }
-    }
-
-    // Check if whole room finished (all players finished)
-    if (room.players.every((p) => p.finished)) {
-      room.status = "finished";
+      if (replayId) (player.replayIds ??= [])[levelIndex] = replayId;
+      advancePlayer(room, player);
     }
 
     if (player.currentLevel !== prevLevel || room.status !== prevStatus) {
-      emitRoomUpdate(room);
+      commitRoom(room);
     }
     return room;
   },
@@ -0,0 +1,50 @@
+/**
+ * Session token tests — signing, tampering and expiry of play sessions and
+ * finish stamps.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { issueFinishStamp, issueSessionToken, SESSION_TTL_MS, verifyFinishStamp, verifySessionToken } from "./session-token";
+
+// Re-encode a token's payload with changes, keeping the original signature
+function tamper(token: string, changes: object): string {
+  const [payload, signature] = token.split(".");
+  const value = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  return `${Buffer.from(JSON.stringify({ ...value, ...changes })).toString("base64url")}.${signature}`;
+}
+
+test("a fresh token verifies to its session", () => {
+  const { token, session } = issueSessionToken("2026-10-19", "player-1");
+  assert.deepEqual(verifySessionToken(token), session);
+  assert.equal(session.expiresAt, session.startedAt + SESSION_TTL_MS);
+  assert.notEqual(issueSessionToken("2026-10-19").session.nonce, session.nonce);
+});
+
+test("tampered and malformed tokens are refused", () => {
+  const { token, session } = issueSessionToken("2026-10-19");
+  assert.equal(verifySessionToken(tamper(token, { startedAt: session.startedAt - 60_000 })), null);
+  assert.equal(verifySessionToken(tamper(token, { playerId: "someone-else" })), null);
+  assert.equal(verifySessionToken(`${token.split(".")[0]}.`), null);
+  assert.equal(verifySessionToken(`${token}x`), null);
+  assert.equal(verifySessionToken("not-a-token"), null);
+});
+
+test("tokens expire after the session TTL", () => {
+  const { token, session } = issueSessionToken("2026-10-19");
+  assert.notEqual(verifySessionToken(token, session.expiresAt), null);
+  assert.equal(verifySessionToken(token, session.expiresAt + 1), null);
+});
+
+test("finish stamps only verify for their own session", () => {
+  const { session } = issueSessionToken("2026-10-19");
+  const finishedAt = session.startedAt;
+  const stamp = issueFinishStamp(session, finishedAt, 2);
+  assert.deepEqual(verifyFinishStamp(stamp, session), { finishedAt, hintsUsed: 2 });
+
+  assert.equal(verifyFinishStamp(stamp, issueSessionToken("2026-10-19").session), null);
+  assert.equal(verifyFinishStamp(tamper(stamp, { finishedAt: finishedAt + 5000 }), session), null);
+  assert.equal(verifyFinishStamp(tamper(stamp, { hintsUsed: 0 }), session), null);
+  assert.equal(verifyFinishStamp(issueFinishStamp(session, session.startedAt - 1), session), null);
+  assert.equal(verifyFinishStamp(issueFinishStamp(session, Date.now() + 60_000), session), null);
+});
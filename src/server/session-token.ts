@@ -0,0 +1,99 @@
+/**
+ * Signed play-session tokens — the server's record of when a player started a puzzle.
+ *
+ * A token is `<payload>.<signature>`, both base64url, signed with HMAC-SHA256.
+ * Set ZIP_SESSION_SECRET in production; without it a random per-process
+ * secret is used and tokens stop verifying after a restart.
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+
+export interface PlaySession {
+  date: string; // Puzzle seed the session is for
+  startedAt: number; // Server clock, ms
+  expiresAt: number; // Tokens are refused after this — used nonces only need keeping until then
+  nonce: string; // Makes every token single-use
+  playerId?: string; // The account that started it, if one was signed in — only that account can post it
+}
+
+// How long a started puzzle can be posted for
+export const SESSION_TTL_MS = 6 * 60 * 60 * 1000;
+
+const globalForSecret = globalThis as typeof globalThis & {
+  __zipSessionSecret?: string;
+};
+
+function getSecret(): string {
+  return (globalForSecret.__zipSessionSecret ??= process.env.ZIP_SESSION_SECRET || randomBytes(32).toString("hex"));
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSecret()).update(payload).digest("base64url");
+}
+
+// `<payload>.<signature>` for any JSON value
+function encodeSigned(value: object): string {
+  const payload = Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+// The decoded payload if the signature matches, else null
+function decodeSigned(token: string): Record<string, unknown> | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const value = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    return typeof value === "object" && value !== null ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function issueSessionToken(date: string, playerId?: string): { token: string; session: PlaySession } {
+  const startedAt = Date.now();
+  const session: PlaySession = { date, startedAt, expiresAt: startedAt + SESSION_TTL_MS, nonce: randomUUID(), playerId };
+  return { token: encodeSigned(session), session };
+}
+
+/** Returns the session if the token is well-formed, the signature matches and it has not expired, else null */
+export function verifySessionToken(token: string, now = Date.now()): PlaySession | null {
+  const session = decodeSigned(token);
+  if (!session || typeof session.date !== "string" || typeof session.startedAt !== "number" || typeof session.expiresAt !== "number" || typeof session.nonce !== "string") return null;
+  if (now > session.expiresAt) return null;
+  return session as unknown as PlaySession;
+}
+
+export interface FinishStamp {
+  finishedAt: number; // Server clock, ms
+  hintsUsed: number; // Hints the session had taken by then
+}
+
+/**
+ * Finish stamps — the server's record of when a session's puzzle was solved,
+ * and with how many hints, issued when the path is validated. Posting the time
+ * can come later (e.g. after typing a name) without the wait counting towards it.
+ */
+export function issueFinishStamp(session: PlaySession, finishedAt = Date.now(), hintsUsed = 0): string {
+  return encodeSigned({ nonce: session.nonce, finishedAt, hintsUsed });
+}
+
+/** The stamp if it is genuine and belongs to `session`, else null */
+export function verifyFinishStamp(token: string, session: PlaySession): FinishStamp | null {
+  const stamp = decodeSigned(token);
+  if (!stamp || stamp.nonce !== session.nonce || typeof stamp.finishedAt !== "number" || typeof stamp.hintsUsed !== "number") return null;
+  if (stamp.finishedAt < session.startedAt || stamp.finishedAt > Date.now()) return null;
+  return { finishedAt: stamp.finishedAt, hintsUsed: stamp.hintsUsed };
+}
+
+// Nobody draws a path faster than this per cell — anything quicker is scripted
+export const MIN_MS_PER_CELL = 120;
+
+/** Fastest believable solve time for a board with `openCells` cells */
+export function minSolveTimeMs(openCells: number): number {
+  return openCells * MIN_MS_PER_CELL;
+}
@@ -0,0 +1,97 @@
+/**
+ * File-backed storage — the in-memory store, snapshotted to a JSON file.
+ * Writes are batched and flushed shortly after the last change, and once more on exit
+ * or on SIGINT/SIGTERM (which skip "exit" handlers unless they are handled).
+ *
+ * Replays live in their own files (replay-files.ts), so the snapshot stays small.
+ * Room drafts and presence are not persisted at all: they only matter to live
+ * connections, which a restart drops anyway.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import type { Room } from "../room-manager";
+import { createMemoryStorage, emptyData, type MemoryData } from "./memory";
+import { createReplayFiles } from "./replay-files";
+import type { ReplayRepository, Storage } from "./types";
+
+const FLUSH_DELAY_MS = 250;
+
+function load(filePath: string): MemoryData {
+  if (!existsSync(filePath)) return emptyData();
+  try {
+    return { ...emptyData(), ...(JSON.parse(readFileSync(filePath, "utf8")) as Partial<MemoryData>) };
+  } catch (err) {
+    console.error(`Failed to read storage file ${filePath}, starting empty`, err);
+    return emptyData();
+  }
+}
+
+// A room as written to disk — without the players' drafts and presence
+function persistedRoom(room: Room): Room {
+  return {
+    ...room,
+    players: room.players.map((player) => {
+      const copy = { ...player };
+      delete copy.draft;
+      delete copy.presence;
+      return copy;
+    }),
+  };
+}
+
+function toSnapshot(data: MemoryData): MemoryData {
+  return { ...data, rooms: Object.fromEntries(Object.entries(data.rooms).map(([id, room]) => [id, persistedRoom(room)])), replays: {} };
+}
+
+// Snapshots from before replays had their own files still carry them — move them out, oldest first
+function moveReplays(data: MemoryData, replays: ReplayRepository) {
+  for (const replay of Object.values(data.replays)) replays.save(replay);
+  data.replays = {};
+}
+
+export function createFileStorage(filePath: string): Storage {
+  const data = load(filePath);
+  const replays = createReplayFiles(join(dirname(filePath), "replays"));
+  moveReplays(data, replays);
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    mkdirSync(dirname(filePath), { recursive: true });
+    // Write-then-rename so a crash mid-write never leaves a truncated file
+    const tmpPath = `${filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(toSnapshot(data)));
+    renameSync(tmpPath, filePath);
+  };
+
+  const scheduleFlush = () => {
+    if (timer) return;
+    timer = setTimeout(() => {
+      try {
+        flush();
+      } catch (err) {
+        console.error("Failed to write storage file", err);
+      }
+    }, FLUSH_DELAY_MS);
+  };
+
+  const flushPending = () => {
+    if (timer) flush();
+  };
+  process.on("exit", flushPending);
+  // Handling a signal cancels its default exit — keep it, unless something else is handling shutdown too
+  const flushOnSignal = (signal: NodeJS.Signals, exitCode: number) => {
+    process.once(signal, () => {
+      flushPending();
+      if (process.listenerCount(signal) === 0) process.exit(exitCode);
+    });
+  };
+  flushOnSignal("SIGINT", 130);
+  flushOnSignal("SIGTERM", 143);
+
+  return { ...createMemoryStorage(data, scheduleFlush), replays };
+}
@@ -0,0 +1,26 @@
+/**
+ * Storage selection — `ZIP_STORAGE=file` persists to `ZIP_STORAGE_PATH`
+ * (default `.data/zip-store.json`); anything else keeps data in memory.
+ */
+
+import { createFileStorage } from "./file";
+import { createMemoryStorage } from "./memory";
+import type { Storage } from "./types";
+
+export type { HintCountRepository, LeaderboardBoard, LeaderboardRepository, PlayerRecord, PlayerRepository, ReplayRecord, ReplayRepository, RoomRepository, SolveRecord, SolveRepository, Storage, UsedSessionRepository } from "./types";
+
+// Shared across module instances (Next.js dev reloads, custom server + route handler)
+const globalForStorage = globalThis as typeof globalThis & {
+  __zipStorage?: Storage;
+};
+
+function createStorage(): Storage {
+  if (process.env.ZIP_STORAGE === "file") {
+    return createFileStorage(process.env.ZIP_STORAGE_PATH || ".data/zip-store.json");
+  }
+  return createMemoryStorage();
+}
+
+export function getStorage(): Storage {
+  return (globalForStorage.__zipStorage ??= createStorage());
+}
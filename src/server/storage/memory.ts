@@ -0,0 +1,136 @@
+/**
+ * In-memory storage — fast, and wiped on every restart.
+ * Also the working set behind the file-backed storage.
+ */
+
+import type { LeaderboardEntry } from "../../engine/types";
+import type { Room } from "../room-manager";
+import { MAX_LEADERBOARD_ENTRIES, MAX_STORED_REPLAYS, type LeaderboardBoard, type PlayerRecord, type ReplayRecord, type SolveRecord, type Storage } from "./types";
+
+export interface MemoryData {
+  leaderboards: Record<string, LeaderboardEntry[]>; // Keyed by `boardKey`
+  rooms: Record<string, Room>;
+  players: Record<string, PlayerRecord>;
+  replays: Record<string, ReplayRecord>;
+  solves: Record<string, SolveRecord[]>; // Keyed by player id
+  usedSessions: Record<string, number>; // Nonce → when its session expires
+  hintCounts: Record<string, { count: number; expiresAt: number }>; // Keyed by session nonce
+}
+
+export function emptyData(): MemoryData {
+  return { leaderboards: {}, rooms: {}, players: {}, replays: {}, solves: {}, usedSessions: {}, hintCounts: {} };
+}
+
+// Daily boards keep the bare date as their key, so snapshots written before archive boards still load
+function boardKey(date: string, board: LeaderboardBoard): string {
+  return board === "daily" ? date : `${board}:${date}`;
+}
+
+// Unaided runs rank above hinted ones, then the faster run wins
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return Number((a.hintsUsed ?? 0) > 0) - Number((b.hintsUsed ?? 0) > 0) || a.timeMs - b.timeMs;
+}
+
+/**
+ * Build storage over a plain data object.
+ * `onChange` runs after every write (the file backend uses it to schedule a flush).
+ */
+export function createMemoryStorage(data: MemoryData = emptyData(), onChange: () => void = () => {}): Storage {
+  return {
+    leaderboards: {
+      list(date, limit = MAX_LEADERBOARD_ENTRIES, board = "daily") {
+        return (data.leaderboards[boardKey(date, board)] ?? []).slice(0, limit);
+      },
+      add(entry, board = "daily") {
+        const entries = (data.leaderboards[boardKey(entry.date, board)] ??= []);
+        // One row per player — a worse repeat is dropped, a better one replaces their old run
+        const previous = entry.playerId === undefined ? -1 : entries.findIndex((e) => e.playerId === entry.playerId);
+        if (previous !== -1) {
+          if (compareEntries(entries[previous], entry) <= 0) return;
+          entries.splice(previous, 1);
+        }
+        entries.push(entry);
+        entries.sort(compareEntries);
+        if (entries.length > MAX_LEADERBOARD_ENTRIES) entries.length = MAX_LEADERBOARD_ENTRIES;
+        onChange();
+      },
+    },
+    rooms: {
+      get(id) {
+        return data.rooms[id];
+      },
+      has(id) {
+        return id in data.rooms;
+      },
+      save(room) {
+        data.rooms[room.id] = room;
+        onChange();
+      },
+      delete(id) {
+        delete data.rooms[id];
+        onChange();
+      },
+      list() {
+        return Object.values(data.rooms);
+      },
+    },
+    players: {
+      get(id) {
+        return data.players[id];
+      },
+      save(player) {
+        data.players[player.id] = player;
+        onChange();
+      },
+    },
+    replays: {
+      get(id) {
+        return data.replays[id];
+      },
+      save(replay) {
+        data.replays[replay.id] = replay;
+        // Keys keep insertion order, so the first ones are the oldest
+        const ids = Object.keys(data.replays);
+        for (const id of ids.slice(0, Math.max(0, ids.length - MAX_STORED_REPLAYS))) delete data.replays[id];
+        onChange();
+      },
+    },
+    solves: {
+      add(solve) {
+        (data.solves[solve.playerId] ??= []).push(solve);
+        onChange();
+      },
+      listByPlayer(playerId) {
+        return data.solves[playerId] ?? [];
+      },
+    },
+    usedSessions: {
+      has(nonce) {
+        return nonce in data.usedSessions;
+      },
+      add(nonce, expiresAt) {
+        const now = Date.now();
+        for (const [used, usedExpiresAt] of Object.entries(data.usedSessions)) {
+          if (usedExpiresAt < now) delete data.usedSessions[used];
+        }
+        data.usedSessions[nonce] = expiresAt;
+        onChange();
+      },
+    },
+    hintCounts: {
+      get(nonce) {
+        return data.hintCounts[nonce]?.count ?? 0;
+      },
+      add(nonce, expiresAt) {
+        const now = Date.now();
+        for (const [counted, { expiresAt: countedExpiresAt }] of Object.entries(data.hintCounts)) {
+          if (countedExpiresAt < now) delete data.hintCounts[counted];
+        }
+        const count = (data.hintCounts[nonce]?.count ?? 0) + 1;
+        data.hintCounts[nonce] = { count, expiresAt };
+        onChange();
+        return count;
+      },
+    },
+  };
+}
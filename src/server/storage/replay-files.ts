@@ -0,0 +1,67 @@
+/**
+ * Replays on disk — one JSON file per replay, next to the store's snapshot.
+ *
+ * Replays are the bulk of what the server keeps and never change once saved,
+ * so they stay out of the snapshot: saving one writes a single small file and
+ * appends its id to `index.log`, the save order used to drop the oldest.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { MAX_STORED_REPLAYS, type ReplayRecord, type ReplayRepository } from "./types";
+
+// Ids come from URLs — anything else could point outside the directory
+const REPLAY_ID_RE = /^[A-Za-z0-9-]{1,64}$/;
+
+export function createReplayFiles(dir: string): ReplayRepository {
+  const indexPath = join(dir, "index.log");
+  mkdirSync(dir, { recursive: true });
+
+  // Stored ids, oldest first
+  const ids = existsSync(indexPath) ? [...new Set(readFileSync(indexPath, "utf8").split("\n").filter(Boolean))] : [];
+  let loggedIds = ids.length; // Lines in the log, including ids already dropped
+
+  const fileFor = (id: string) => join(dir, `${id}.json`);
+
+  // Rewrite the log with only the kept ids, once dropped ones make up most of it
+  const compactIndex = () => {
+    const tmpPath = `${indexPath}.tmp`;
+    writeFileSync(tmpPath, ids.map((id) => `${id}\n`).join(""));
+    renameSync(tmpPath, indexPath);
+    loggedIds = ids.length;
+  };
+
+  const dropOldest = () => {
+    while (ids.length > MAX_STORED_REPLAYS) {
+      const id = ids.shift()!;
+      try {
+        unlinkSync(fileFor(id));
+      } catch {
+        // Already gone
+      }
+    }
+    if (loggedIds > 2 * MAX_STORED_REPLAYS) compactIndex();
+  };
+  dropOldest();
+
+  return {
+    get(id) {
+      if (!REPLAY_ID_RE.test(id)) return undefined;
+      try {
+        return JSON.parse(readFileSync(fileFor(id), "utf8")) as ReplayRecord;
+      } catch {
+        return undefined;
+      }
+    },
+    save(replay) {
+      if (!REPLAY_ID_RE.test(replay.id)) throw new Error(`Invalid replay id ${replay.id}`);
+      writeFileSync(fileFor(replay.id), JSON.stringify(replay));
+      if (!ids.includes(replay.id)) {
+        appendFileSync(indexPath, `${replay.id}\n`);
+        ids.push(replay.id);
+        loggedIds += 1;
+        dropOldest();
+      }
+    },
+  };
+}
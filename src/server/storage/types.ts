@@ -0,0 +1,104 @@
+/**
+ * Storage contracts — everything the server persists goes through these.
+ * Implementations are synchronous so route handlers and RoomManager stay simple.
+ */
+
+import type { LeaderboardEntry, Puzzle } from "../../engine/types";
+import type { Room } from "../room-manager";
+
+export interface PlayerRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  lastSeenAt: number;
+  secretHash?: string; // SHA-256 of the account cookie secret (see server/identity.ts)
+}
+
+export interface ReplayRecord {
+  id: string;
+  name: string; // Player name when the run was submitted
+  puzzle: Puzzle; // Kept with the run so it can be played back after its room is gone
+  replay: string; // Encoded moves (engine/replay.ts)
+  timeMs: number;
+  source: { type: LeaderboardBoard; date: string } | { type: "room"; roomId: string; levelIndex: number };
+  createdAt: number;
+}
+
+/** One solved daily, kept per player for stats */
+export interface SolveRecord {
+  playerId: string;
+  date: string; // The puzzle's date
+  board: LeaderboardBoard; // "daily" if solved on the day — only those count towards streaks
+  difficulty: Puzzle["difficulty"];
+  rows: number;
+  cols: number;
+  timeMs: number;
+  solvedAt: number;
+}
+
+/** "daily" ranks same-day solves; "archive" holds solves of a date's puzzle made after that day */
+export type LeaderboardBoard = "daily" | "archive";
+
+export interface LeaderboardRepository {
+  /** Entries for a date — unaided runs first, then hinted ones, each fastest first */
+  list(date: string, limit?: number, board?: LeaderboardBoard): LeaderboardEntry[];
+  /** Insert an entry, keeping each player's best run and only the top `MAX_LEADERBOARD_ENTRIES` per date and board */
+  add(entry: LeaderboardEntry, board?: LeaderboardBoard): void;
+}
+
+export interface RoomRepository {
+  get(id: string): Room | undefined;
+  has(id: string): boolean;
+  /**
+   * Insert or update — call after mutating a room so the change is persisted.
+   * Players' drafts and presence are never persisted, so changing only those needs no save.
+   */
+  save(room: Room): void;
+  delete(id: string): void;
+  list(): Room[];
+}
+
+export interface PlayerRepository {
+  get(id: string): PlayerRecord | undefined;
+  save(player: PlayerRecord): void;
+}
+
+export interface ReplayRepository {
+  get(id: string): ReplayRecord | undefined;
+  /** Store a replay — once there are more than `MAX_STORED_REPLAYS`, the oldest are dropped */
+  save(replay: ReplayRecord): void;
+}
+
+export interface SolveRepository {
+  add(solve: SolveRecord): void;
+  /** Every solve by a player, oldest first */
+  listByPlayer(playerId: string): SolveRecord[];
+}
+
+/** Play-session nonces already posted to a leaderboard (see server/session-token.ts) */
+export interface UsedSessionRepository {
+  has(nonce: string): boolean;
+  /** Mark a nonce used until its session expires — expired ones are dropped, since their tokens no longer verify */
+  add(nonce: string, expiresAt: number): void;
+}
+
+/** Hints taken per play session, by session nonce (see server/session-token.ts) */
+export interface HintCountRepository {
+  get(nonce: string): number;
+  /** Count one more hint for a session, kept until it expires — returns the new total */
+  add(nonce: string, expiresAt: number): number;
+}
+
+export interface Storage {
+  leaderboards: LeaderboardRepository;
+  rooms: RoomRepository;
+  players: PlayerRepository;
+  replays: ReplayRepository;
+  solves: SolveRepository;
+  usedSessions: UsedSessionRepository;
+  hintCounts: HintCountRepository;
+}
+
+export const MAX_LEADERBOARD_ENTRIES = 50;
+// Replays beyond this are dropped oldest first (their replay links then 404)
+export const MAX_STORED_REPLAYS = 10_000;